@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as core from '@actions/core';
+import { loadReviewConfig } from '../../src/config/ConfigLoader';
+import { ConfigValidationError, validateConfig } from '../../src/config/ConfigSchema';
+import { ActionInputs } from '../../src/config/ActionInputs';
+
+jest.mock('@actions/core');
+const mockCore = core as jest.Mocked<typeof core>;
+
+describe('ConfigLoader', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'code-review-config-'));
+    fs.mkdirSync(path.join(workspace, '.github'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should return null when no config file exists', () => {
+    expect(loadReviewConfig('', workspace)).toBeNull();
+  });
+
+  it('should load the default YAML config and flatten it into input keys', () => {
+    fs.writeFileSync(path.join(workspace, '.github/code-review.yml'), `
+version: 1
+providers: [claude, openai]
+chunk-size: 3000
+skip-patterns: '*.min.js, dist/*'
+`);
+
+    const config = loadReviewConfig('', workspace);
+
+    expect(config?.source).toBe('.github/code-review.yml');
+    expect(config?.values).toEqual({
+      providers: ['claude', 'openai'],
+      'chunk-size': 3000,
+      'skip-patterns': ['*.min.js', 'dist/*']
+    });
+  });
+
+  it('should load a JSON config from an explicit path', () => {
+    fs.writeFileSync(path.join(workspace, 'review.json'), JSON.stringify({ version: 1, 'review-focus': ['security'] }));
+
+    const config = loadReviewConfig('review.json', workspace);
+
+    expect(config?.values['review-focus']).toEqual(['security']);
+  });
+
+  it('should report every invalid key with its path', () => {
+    fs.writeFileSync(path.join(workspace, '.github/code-review.yml'), `
+version: 1
+chunk-size: large
+review_focus: security
+`);
+
+    expect(() => loadReviewConfig('', workspace)).toThrow(ConfigValidationError);
+    try {
+      loadReviewConfig('', workspace);
+    } catch (error) {
+      const issues = (error as ConfigValidationError).issues;
+      expect(issues.map(issue => issue.path)).toEqual(['chunk-size', 'review_focus']);
+      expect((error as Error).message).toContain('chunk-size: expected a number, got "large"');
+      expect((error as Error).message).toContain('review_focus: unknown key');
+    }
+  });
+
+  it('should reject unparseable YAML', () => {
+    fs.writeFileSync(path.join(workspace, '.github/code-review.yml'), 'version: [1');
+
+    expect(() => loadReviewConfig('', workspace)).toThrow(/could not be parsed/);
+  });
+
+  it('should require a supported version', () => {
+    expect(() => validateConfig({ providers: 'openai' }, 'test.yml')).toThrow(/version: is required/);
+    expect(() => validateConfig({ version: 2 }, 'test.yml')).toThrow(/unsupported version 2/);
+  });
+
+  it('should validate nested sections and flatten them with dashes', () => {
+    const values = validateConfig(
+      { version: 1, openai: { model: 'gpt-4o' } },
+      'test.yml',
+      { openai: { type: 'object', properties: { model: { type: 'string' } } } }
+    );
+
+    expect(values).toEqual({ 'openai-model': 'gpt-4o' });
+    expect(() => validateConfig({ version: 1, openai: { modle: 'x' } }, 'test.yml', {
+      openai: { type: 'object', properties: { model: { type: 'string' } } }
+    })).toThrow(/openai\.modle: unknown key/);
+  });
+});
+
+describe('ActionInputs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should prefer workflow inputs over config values', () => {
+    mockCore.getInput.mockImplementation((name: string) => name === 'chunk-size' ? '1500' : '');
+
+    const inputs = new ActionInputs({ 'chunk-size': 3000, providers: ['claude', 'openai'] });
+
+    expect(inputs.getInput('chunk-size')).toBe('1500');
+    expect(inputs.getInput('providers')).toBe('claude,openai');
+    expect(inputs.getList('providers')).toEqual(['claude', 'openai']);
+    expect(inputs.getInput('review-focus', 'security')).toBe('security');
+  });
+});
@@ -0,0 +1,52 @@
+import * as core from '@actions/core';
+import { ActionInputs } from '../../src/config/ActionInputs';
+import { DEFAULT_PROVIDER_SETTINGS, readProviderSettings } from '../../src/config/ProviderSettings';
+import { ProviderConfigError } from '../../src/providers/BaseProvider';
+
+jest.mock('@actions/core');
+const mockCore = core as jest.Mocked<typeof core>;
+
+describe('readProviderSettings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const mockInputs = (values: Record<string, string>) => {
+    mockCore.getInput.mockImplementation((name: string) => values[name] || '');
+  };
+
+  it('should fall back to the action defaults when nothing is configured', () => {
+    mockInputs({});
+
+    expect(readProviderSettings(new ActionInputs(), 'openai')).toEqual({
+      model: undefined,
+      baseUrl: undefined,
+      ...DEFAULT_PROVIDER_SETTINGS
+    });
+  });
+
+  it('should read prefixed inputs and let them override the repository config', () => {
+    mockInputs({ 'claude-model': 'claude-sonnet-4-5', 'claude-temperature': '0' });
+
+    const inputs = new ActionInputs({
+      'claude-model': 'claude-3-haiku-20240307',
+      'claude-max-tokens': 8000,
+      'claude-base-url': 'https://proxy.example.com'
+    });
+
+    expect(readProviderSettings(inputs, 'claude')).toEqual({
+      model: 'claude-sonnet-4-5',
+      maxTokens: 8000,
+      temperature: 0,
+      timeout: DEFAULT_PROVIDER_SETTINGS.timeout,
+      baseUrl: 'https://proxy.example.com'
+    });
+  });
+
+  it('should name the offending input when a number cannot be parsed', () => {
+    mockInputs({ 'gemini-max-tokens': 'lots' });
+
+    expect(() => readProviderSettings(new ActionInputs(), 'gemini')).toThrow(ProviderConfigError);
+    expect(() => readProviderSettings(new ActionInputs(), 'gemini')).toThrow('Invalid input gemini-max-tokens: expected a number, got "lots"');
+  });
+});
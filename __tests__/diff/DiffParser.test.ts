@@ -0,0 +1,122 @@
+import { findCommentLine, hunkLength, iterateDiffFiles, parseDiff, renderDiffFile } from '../../src/diff/DiffParser';
+
+describe('DiffParser', () => {
+  const gitDiff = [
+    'diff --git a/src/app.ts b/src/app.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/app.ts',
+    '+++ b/src/app.ts',
+    '@@ -10,4 +10,5 @@ export function start() {',
+    ' const a = 1;',
+    '-const b = 2;',
+    '+const b = 3;',
+    '+const c = 4;',
+    '',
+    ' return a;',
+    'diff --git a/src/new.ts b/src/new.ts',
+    'new file mode 100644',
+    'index 0000000..3333333',
+    '--- /dev/null',
+    '+++ b/src/new.ts',
+    '@@ -0,0 +1,2 @@',
+    '+export const x = 1;',
+    '+export const y = 2;',
+    '\\ No newline at end of file',
+    'diff --git a/src/old.ts b/src/old.ts',
+    'deleted file mode 100644',
+    '--- a/src/old.ts',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-gone();',
+    'diff --git a/lib/a.ts b/lib/b.ts',
+    'similarity index 100%',
+    'rename from lib/a.ts',
+    'rename to lib/b.ts',
+    'diff --git a/logo.png b/logo.png',
+    'Binary files a/logo.png and b/logo.png differ',
+    'diff --git a/run.sh b/run.sh',
+    'old mode 100644',
+    'new mode 100755'
+  ].join('\n');
+
+  it('should parse git diffs into files with a status', () => {
+    const files = parseDiff(gitDiff);
+
+    expect(files.map(file => [file.path, file.status])).toEqual([
+      ['src/app.ts', 'modified'],
+      ['src/new.ts', 'added'],
+      ['src/old.ts', 'deleted'],
+      ['lib/b.ts', 'renamed'],
+      ['logo.png', 'binary'],
+      ['run.sh', 'mode-change']
+    ]);
+    expect(files[3].oldPath).toBe('lib/a.ts');
+  });
+
+  it('should number old and new lines', () => {
+    const [app, added] = parseDiff(gitDiff);
+    const hunk = app.hunks[0];
+
+    expect(hunk).toMatchObject({ oldStart: 10, oldLines: 4, newStart: 10, newLines: 5 });
+    expect(hunk.lines.map(line => [line.type, line.oldLine, line.newLine])).toEqual([
+      ['context', 10, 10],
+      ['removed', 11, undefined],
+      ['added', undefined, 11],
+      ['added', undefined, 12],
+      // An empty context line whose leading space was stripped
+      ['context', 12, 13],
+      ['context', 13, 14]
+    ]);
+    expect(added.hunks[0].lines[1]).toMatchObject({ content: 'export const y = 2;', newLine: 2, noNewlineAtEnd: true });
+  });
+
+  it('should parse the File: format and ignore the blank lines between files', () => {
+    const files = parseDiff('File: src/a.ts\n@@ -1,2 +1,2 @@\n-a\n+b\n c\n\nFile: docs/new file.md\n@@ -0,0 +1 @@\n+# Title');
+
+    expect(files).toHaveLength(2);
+    expect(files[0]).toMatchObject({ path: 'src/a.ts', status: 'modified', headers: ['File: src/a.ts'] });
+    expect(files[0].hunks[0].lines).toHaveLength(3);
+    expect(files[1]).toMatchObject({ path: 'docs/new file.md', status: 'added' });
+  });
+
+  it('should read paths with spaces from git headers', () => {
+    const [file] = parseDiff('diff --git a/my dir/a b.ts b/my dir/a b.ts\n@@ -1 +1 @@\n-x\n+y');
+
+    expect(file.path).toBe('my dir/a b.ts');
+  });
+
+  it('should render a file back to the same diff text', () => {
+    const text = 'File: src/a.ts\n@@ -1,2 +1,2 @@\n-a\n+b\n c\n\\ No newline at end of file';
+
+    expect(renderDiffFile(parseDiff(text)[0])).toBe(text);
+  });
+
+  it('should measure hunks as they are rendered', () => {
+    parseDiff(gitDiff).forEach(file => {
+      file.hunks.forEach(hunk => {
+        expect(hunkLength(hunk)).toBe(renderDiffFile({ ...file, headers: [] }, [hunk]).length);
+      });
+    });
+  });
+
+  it('should yield each file once its lines have been read', () => {
+    const files = iterateDiffFiles(gitDiff);
+
+    expect(files.next().value).toMatchObject({ path: 'src/app.ts', status: 'modified' });
+    expect(Array.from(files).map(file => file.path)).toEqual(['src/new.ts', 'src/old.ts', 'lib/b.ts', 'logo.png', 'run.sh']);
+  });
+
+  describe('findCommentLine', () => {
+    const [file] = parseDiff('File: a.ts\n@@ -10,3 +10,3 @@\n x\n-y\n+z\n w\n@@ -40,2 +40,3 @@\n p\n+q\n r');
+
+    it('should keep lines that are in the diff', () => {
+      expect(findCommentLine(file, 11)).toBe(11);
+      expect(findCommentLine(file, 41)).toBe(41);
+    });
+
+    it('should reject lines outside the hunks', () => {
+      expect(findCommentLine(file, 25)).toBeUndefined();
+      expect(findCommentLine(file, 43)).toBeUndefined();
+    });
+  });
+});
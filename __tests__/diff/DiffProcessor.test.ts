@@ -10,7 +10,7 @@ describe('DiffProcessor', () => {
   });
 
   it('should chunk large diffs at hunk boundaries', () => {
-    const processor = new DiffProcessor(200); // 200 char chunks
+    const processor = new DiffProcessor(50); // about 200 characters per chunk
     const largeDiff = `File: file1.js
 @@ -1,3 +1,4 @@
  function test1() {
@@ -83,6 +83,99 @@ File: file3.js
     expect(chunks[0].content).toContain('function test()');
   });
 
+  it('should attribute every chunk to the files of its hunks', () => {
+    const processor = new DiffProcessor(20);
+    const diff = `diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,2 +1,3 @@
+ const a = 1;
++const b = 2;
+ export { a };
+@@ -20,2 +21,3 @@
+ function run() {
++  start();
+ }`;
+
+    const chunks = processor.chunkDiff(diff);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.files).toEqual(['src/app.ts']));
+    expect(chunks[chunks.length - 1].content).toContain('@@ -20,2 +21,3 @@');
+  });
+
+  it('should size chunks in estimated tokens', () => {
+    const hunk = (start: number) => `@@ -${start},1 +${start},1 @@\n-${'a'.repeat(150)}\n+${'b'.repeat(150)}`;
+    const diff = `File: big.js\n${hunk(1)}\n${hunk(20)}\n${hunk(40)}\n${hunk(60)}`;
+
+    // Each hunk is about 80 tokens, so two fit into 200
+    const chunks = new DiffProcessor(200).chunkDiff(diff);
+
+    expect(chunks).toHaveLength(2);
+    expect(new DiffProcessor(400).chunkDiff(diff)).toHaveLength(1);
+  });
+
+  describe('file-aware chunking', () => {
+    const hunk = (start: number, text: string) => `@@ -${start},1 +${start},2 @@\n line ${start}\n+${text}`;
+    const gitFile = (path: string, ...hunks: string[]) =>
+      [`diff --git a/${path} b/${path}`, 'index 1111111..2222222 100644', `--- a/${path}`, `+++ b/${path}`, ...hunks].join('\n');
+
+    it('should keep a file that fits into one chunk together', () => {
+      const body = 'x'.repeat(200);
+      const diff = [
+        gitFile('a.ts', hunk(1, body), hunk(30, body)),
+        gitFile('b.ts', hunk(1, body), hunk(30, body)),
+        gitFile('c.ts', hunk(1, body))
+      ].join('\n');
+
+      // a.ts and b.ts are about 135 tokens each, c.ts about 80
+      const chunks = new DiffProcessor(230).chunkDiff(diff);
+
+      expect(chunks.map(chunk => chunk.files)).toEqual([['a.ts'], ['b.ts', 'c.ts']]);
+      expect(chunks[0].content).toContain('@@ -30,1 +30,2 @@');
+      expect(chunks[1].manifest).toEqual([
+        { file: 'b.ts', status: 'modified', lines: [{ start: 1, end: 2 }, { start: 30, end: 31 }], partial: false },
+        { file: 'c.ts', status: 'modified', lines: [{ start: 1, end: 2 }], partial: false }
+      ]);
+    });
+
+    it('should split an oversized file between hunks and repeat its headers', () => {
+      const body = 'y'.repeat(300);
+      const diff = gitFile('big.ts', hunk(1, body), hunk(40, body), hunk(80, body));
+
+      const chunks = new DiffProcessor(100).chunkDiff(diff);
+
+      expect(chunks).toHaveLength(3);
+      chunks.forEach(chunk => {
+        expect(chunk.content.startsWith('diff --git a/big.ts b/big.ts\nindex 1111111..2222222 100644\n--- a/big.ts\n+++ b/big.ts\n@@ -')).toBe(true);
+        expect(chunk.files).toEqual(['big.ts']);
+      });
+      expect(chunks.map(chunk => chunk.manifest)).toEqual([
+        [{ file: 'big.ts', status: 'modified', lines: [{ start: 1, end: 2 }], partial: true }],
+        [{ file: 'big.ts', status: 'modified', lines: [{ start: 40, end: 41 }], partial: true }],
+        [{ file: 'big.ts', status: 'modified', lines: [{ start: 80, end: 81 }], partial: true }]
+      ]);
+    });
+
+    it('should list files without new lines in the manifest', () => {
+      const diff = [
+        'diff --git a/old.ts b/old.ts',
+        'deleted file mode 100644',
+        '--- a/old.ts',
+        '+++ /dev/null',
+        '@@ -1,1 +0,0 @@',
+        '-gone',
+        'diff --git a/logo.png b/logo.png',
+        'Binary files a/logo.png and b/logo.png differ'
+      ].join('\n');
+
+      expect(new DiffProcessor().chunkDiff(diff)[0].manifest).toEqual([
+        { file: 'old.ts', status: 'deleted', lines: [], partial: false },
+        { file: 'logo.png', status: 'binary', lines: [], partial: false }
+      ]);
+    });
+  });
+
   it('should filter files based on patterns', () => {
     const processor = new DiffProcessor();
     const files = ['app.js', 'style.min.js', 'package-lock.json', 'README.md'];
@@ -92,6 +185,13 @@ File: file3.js
     expect(filtered).toEqual(['app.js', 'README.md']);
   });
 
+  it('should match skip patterns as globs rather than substrings', () => {
+    const processor = new DiffProcessor();
+
+    expect(processor.filterFiles(['README.md', 'src/md_utils.ts', 'dist/a.js', 'lib/dist/b.js'], ['*.md', 'dist/*']))
+      .toEqual(['src/md_utils.ts', 'lib/dist/b.js']);
+  });
+
   it('should handle invalid input in filterFiles', () => {
     const processor = new DiffProcessor();
 
@@ -0,0 +1,82 @@
+import { PathFilter, splitPatterns } from '../../src/diff/PathFilter';
+import { parseDiff } from '../../src/diff/DiffParser';
+
+describe('PathFilter', () => {
+  const skipped = (exclude: string[], path: string) => new PathFilter({ exclude }).skipReason(path) !== undefined;
+
+  it('should match patterns without a slash at any depth, but only whole names', () => {
+    expect(skipped(['*.md'], 'README.md')).toBe(true);
+    expect(skipped(['*.md'], 'docs/guide.md')).toBe(true);
+    expect(skipped(['*.md'], 'src/md_utils.ts')).toBe(false);
+    expect(skipped(['*.md'], 'docs/guide.mdx')).toBe(false);
+  });
+
+  it('should anchor patterns with a slash at the root', () => {
+    expect(skipped(['dist/*'], 'dist/app.js')).toBe(true);
+    expect(skipped(['dist/*'], 'packages/dist/app.js')).toBe(false);
+    expect(skipped(['/build'], 'build/out.js')).toBe(true);
+    expect(skipped(['/build'], 'src/build/out.js')).toBe(false);
+  });
+
+  it('should skip everything below a matched directory', () => {
+    expect(skipped(['vendor/'], 'vendor/lib/a.js')).toBe(true);
+    expect(skipped(['vendor/'], 'src/vendor/a.js')).toBe(true);
+    expect(skipped(['vendor/'], 'vendor')).toBe(false);
+    expect(skipped(['node_modules'], 'a/node_modules/b/index.js')).toBe(true);
+  });
+
+  it('should support **, ?, character classes and braces', () => {
+    expect(skipped(['docs/**/*.md'], 'docs/a.md')).toBe(true);
+    expect(skipped(['docs/**/*.md'], 'docs/a/b/c.md')).toBe(true);
+    expect(skipped(['docs/**/*.md'], 'src/docs/a.md')).toBe(false);
+    expect(skipped(['**/__snapshots__/**'], 'src/x/__snapshots__/a.snap')).toBe(true);
+    expect(skipped(['file?.js'], 'file1.js')).toBe(true);
+    expect(skipped(['file?.js'], 'file10.js')).toBe(false);
+    expect(skipped(['v[0-9].txt'], 'v3.txt')).toBe(true);
+    expect(skipped(['v[!0-9].txt'], 'v3.txt')).toBe(false);
+    expect(skipped(['*.{png,jp{e,}g}'], 'img/a.jpeg')).toBe(true);
+    expect(skipped(['*.{png,jp{e,}g}'], 'img/a.jpg')).toBe(true);
+    expect(skipped(['*.{png,jp{e,}g}'], 'img/a.gif')).toBe(false);
+  });
+
+  it('should let the last matching pattern win, so negations bring files back', () => {
+    const filter = new PathFilter({ exclude: ['*.generated.ts', '!src/api/*.generated.ts', 'src/api/legacy.generated.ts'] });
+
+    expect(filter.skipReason('src/types.generated.ts')).toBe('matched skip-pattern "*.generated.ts"');
+    expect(filter.skipReason('src/api/client.generated.ts')).toBeUndefined();
+    expect(filter.skipReason('src/api/legacy.generated.ts')).toBe('matched skip-pattern "src/api/legacy.generated.ts"');
+  });
+
+  it('should review only included files and still apply skip patterns to them', () => {
+    const filter = new PathFilter({ include: ['src/**', '!src/**/*.test.ts'], exclude: ['*.snap'] });
+
+    expect(filter.skipReason('src/app.ts')).toBeUndefined();
+    expect(filter.skipReason('scripts/build.js')).toBe('not matched by include-patterns');
+    expect(filter.skipReason('src/app.test.ts')).toBe('excluded by include-pattern "!src/**/*.test.ts"');
+    expect(filter.skipReason('src/__snapshots__/app.snap')).toBe('matched skip-pattern "*.snap"');
+  });
+
+  it('should treat special characters literally and escape with a backslash', () => {
+    expect(skipped(['a+b(1).js'], 'a+b(1).js')).toBe(true);
+    expect(skipped(['\\*.js'], '*.js')).toBe(true);
+    expect(skipped(['\\*.js'], 'a.js')).toBe(false);
+    expect(skipped(['\\!important.md'], '!important.md')).toBe(true);
+  });
+
+  it('should reject patterns that cannot be compiled', () => {
+    expect(() => new PathFilter({ exclude: ['[z-a]'] })).toThrow('Invalid path pattern "[z-a]"');
+  });
+
+  it('should split pattern lists on commas outside braces and on newlines', () => {
+    expect(splitPatterns('*.min.js, *.{png,svg}\n!keep.png,,')).toEqual(['*.min.js', '*.{png,svg}', '!keep.png']);
+  });
+
+  it('should split a parsed diff into reviewed and skipped files', () => {
+    const files = parseDiff('File: src/a.ts\n@@ -1 +1 @@\n-a\n+b\nFile: package-lock.json\n@@ -1 +1 @@\n-{}\n+{ }');
+
+    const result = new PathFilter({ exclude: ['package-lock.json'] }).filterDiff(files);
+
+    expect(result.files.map(file => file.path)).toEqual(['src/a.ts']);
+    expect(result.skipped).toEqual([{ path: 'package-lock.json', reason: 'matched skip-pattern "package-lock.json"' }]);
+  });
+});
@@ -0,0 +1,127 @@
+import * as core from '@actions/core';
+import {
+  BudgetLimits,
+  BudgetProvider,
+  DEFAULT_DOWNGRADE_MODELS,
+  describeBudgetPlan,
+  fileRisk,
+  planReviewBudget,
+  PROMPT_OVERHEAD_TOKENS,
+  readBudgetLimits
+} from '../../src/diff/ReviewBudget';
+import { ChunkedDiff } from '../../src/diff/DiffProcessor';
+import { ActionInputs } from '../../src/config/ActionInputs';
+
+jest.mock('@actions/core');
+
+describe('ReviewBudget', () => {
+  // 400 characters, so 100 tokens of diff per chunk
+  const chunk = (file: string): ChunkedDiff => ({ content: 'x'.repeat(400), files: [file], size: 400 });
+  const chunkTokens = 100 + PROMPT_OVERHEAD_TOKENS + 1000;
+  const gpt4: BudgetProvider = { id: 'openai', name: 'OpenAI', model: 'gpt-4', maxTokens: 1000 };
+  const limits = (overrides: Partial<BudgetLimits>): BudgetLimits => ({ action: 'sample', downgradeModels: DEFAULT_DOWNGRADE_MODELS, ...overrides });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should keep every chunk when the estimate is within budget', () => {
+    const chunks = [chunk('src/a.ts'), chunk('src/b.ts')];
+    const plan = planReviewBudget(chunks, [gpt4], limits({ maxCalls: 2 }), 1);
+
+    expect(plan.decision).toBe('within-budget');
+    expect(plan.chunks).toBe(chunks);
+    expect(plan.estimate).toMatchObject({ tokens: 2 * chunkTokens, calls: 2 });
+    expect(describeBudgetPlan(plan)).toBe('');
+  });
+
+  it('should review the highest-risk chunks that fit when sampling', () => {
+    const chunks = [chunk('vendor/lib.js'), chunk('README.md'), chunk('src/auth/login.ts'), chunk('src/app.ts')];
+    const plan = planReviewBudget(chunks, [gpt4], limits({ maxTokens: 2 * chunkTokens }), 1);
+
+    expect(plan.decision).toBe('sample');
+    expect(plan.chunks.map(c => c.files[0])).toEqual(['src/auth/login.ts', 'src/app.ts']);
+    expect(plan.exceeded).toEqual([`${4 * chunkTokens} tokens > ${2 * chunkTokens}`]);
+
+    const explanation = describeBudgetPlan(plan);
+    expect(explanation).toContain('reviewed the 2 highest-risk chunk(s)');
+    expect(explanation).toContain('`vendor/lib.js`, `README.md`');
+  });
+
+  it('should abort without reviewing anything', () => {
+    const plan = planReviewBudget([chunk('src/a.ts')], [gpt4], limits({ maxTokens: 1, action: 'abort' }), 1);
+
+    expect(plan.decision).toBe('abort');
+    expect(plan.chunks).toEqual([]);
+    expect(describeBudgetPlan(plan)).toContain('**Review aborted**');
+  });
+
+  it('should abort when sampling cannot fit a single chunk', () => {
+    const plan = planReviewBudget([chunk('src/a.ts'), chunk('src/b.ts')], [gpt4], limits({ maxTokens: chunkTokens / 2 }), 1);
+
+    expect(plan.decision).toBe('abort');
+    expect(plan.chunks).toEqual([]);
+    expect(plan.skipped).toHaveLength(2);
+    expect(describeBudgetPlan(plan)).toContain('**Review aborted**');
+  });
+
+  it('should switch to cheaper models when that fits the budget', () => {
+    const chunks = [chunk('src/a.ts'), chunk('src/b.ts')];
+    // gpt-4 at $30/$60 per million costs about $0.14 for these chunks; gpt-4o-mini well under a cent
+    const plan = planReviewBudget(chunks, [gpt4], limits({ maxCost: 0.01, action: 'downgrade' }), 1);
+
+    expect(plan.decision).toBe('downgrade');
+    expect(plan.downgrades).toEqual({ openai: 'gpt-4o-mini' });
+    expect(plan.chunks).toHaveLength(2);
+    expect(describeBudgetPlan(plan)).toContain('**Downgraded models**: openai → gpt-4o-mini');
+  });
+
+  it('should still sample when the downgraded estimate is over budget', () => {
+    const chunks = [chunk('src/a.ts'), chunk('src/b.ts'), chunk('src/c.ts')];
+    const plan = planReviewBudget(chunks, [gpt4], limits({ maxCalls: 2, action: 'downgrade' }), 1);
+
+    expect(plan.decision).toBe('downgrade');
+    expect(plan.chunks).toHaveLength(2);
+    expect(plan.skipped).toHaveLength(1);
+  });
+
+  it('should count one call per ensemble member', () => {
+    const claude: BudgetProvider = { id: 'claude', name: 'Claude', model: 'claude-3-haiku', maxTokens: 1000 };
+    const plan = planReviewBudget([chunk('src/a.ts')], [gpt4, claude], limits({}), 2);
+
+    expect(plan.estimate.calls).toBe(2);
+  });
+
+  it('should rank files by risk', () => {
+    expect(fileRisk('src/payments/charge.ts')).toBe(4);
+    expect(fileRisk('src/app.ts')).toBe(3);
+    expect(fileRisk('src/__tests__/app.test.ts')).toBe(2);
+    expect(fileRisk('docs/USAGE.md')).toBe(1);
+    expect(fileRisk('package-lock.json')).toBe(0);
+    expect(fileRisk('node_modules/auth/index.js')).toBe(0);
+  });
+
+  it('should read limits from inputs', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => ({
+      'budget-max-cost': '0.5',
+      'budget-max-calls': '0',
+      'budget-action': 'Downgrade',
+      'budget-downgrade-models': 'claude=claude-3-haiku-20240307'
+    } as Record<string, string>)[name] || '');
+
+    expect(readBudgetLimits(new ActionInputs({}))).toEqual({
+      maxTokens: undefined,
+      maxCost: 0.5,
+      maxCalls: undefined,
+      action: 'downgrade',
+      downgradeModels: { ...DEFAULT_DOWNGRADE_MODELS, claude: 'claude-3-haiku-20240307' }
+    });
+  });
+
+  it('should reject invalid budget settings', () => {
+    (core.getInput as jest.Mock).mockReturnValue('');
+
+    expect(() => readBudgetLimits(new ActionInputs({ 'budget-action': 'skip' }))).toThrow('Invalid budget-action: skip');
+    expect(() => readBudgetLimits(new ActionInputs({ 'budget-max-calls': '1.5' }))).toThrow('Invalid input budget-max-calls');
+  });
+});
@@ -14,11 +14,13 @@ jest.mock('../src/diff/DiffProcessor');
 jest.mock('../src/providers/openai/OpenAIProvider');
 jest.mock('../src/providers/claude/ClaudeProvider');
 jest.mock('../src/providers/gemini/GeminiProvider');
+jest.mock('openai');
 jest.mock('@actions/core');
 jest.mock('@actions/github');
 
 import * as core from '@actions/core';
 import * as github from '@actions/github';
+import { AzureOpenAI } from 'openai';
 
 describe('Integration Tests - Complete Workflow', () => {
   let mockGitHubClient: jest.Mocked<GitHubClient>;
@@ -39,6 +41,11 @@ describe('Integration Tests - Complete Workflow', () => {
   let originalClaudeProvider: any;
   let originalGeminiProvider: any;
 
+  // Inline comments are only placed on lines the diff touches
+  const fileDiff = (path: string, line: number) =>
+    `diff --git a/${path} b/${path}\n--- a/${path}\n+++ b/${path}\n@@ -${line},1 +${line},2 @@\n context\n+changed`;
+  const prDiff = [fileDiff('test.js', 10), fileDiff('security.js', 25), fileDiff('high-priority.js', 30)].join('\n');
+
   beforeAll(() => {
     // Store original implementations
     originalGitHubClient = GitHubClient;
@@ -161,7 +168,7 @@ describe('Integration Tests - Complete Workflow', () => {
     });
 
     // Setup default behavior mocks
-    mockGitHubClient.getPRDiff.mockResolvedValue('Sample diff content');
+    mockGitHubClient.getPRDiff.mockResolvedValue(prDiff);
     mockGitHubClient.getPRInfo.mockResolvedValue({
       number: 123,
       title: 'Test PR',
@@ -213,7 +220,7 @@ describe('Integration Tests - Complete Workflow', () => {
 
       // Verify the workflow sequence
       expect(mockGitHubClient.getPRDiff).toHaveBeenCalledWith('test-owner', 'test-repo', 123);
-      expect(mockDiffProcessor.chunkDiff).toHaveBeenCalledWith('Sample diff content');
+      expect(mockDiffProcessor.chunkDiff).toHaveBeenCalledWith(prDiff);
       expect(mockProviderManager.analyzeCode).toHaveBeenCalledWith(
         'Sample chunk',
         expect.objectContaining({
@@ -284,23 +291,30 @@ describe('Integration Tests - Complete Workflow', () => {
     });
 
     it('should respect skip patterns', async () => {
-      // Mock files that should be filtered
-      mockDiffProcessor.filterFiles.mockImplementation((files, patterns) => {
-        return files.filter(file =>
-          !patterns.some(pattern => {
-            if (pattern === '*.min.js') return file.includes('.min.js');
-            if (pattern === 'package-lock.json') return file === 'package-lock.json';
-            return false;
-          })
-        );
-      });
+      mockGitHubClient.getPRDiff.mockResolvedValue([
+        'File: test.js',
+        '@@ -1,1 +1,1 @@',
+        '-let a = 1;',
+        '+const a = 1;',
+        'File: dist/app.min.js',
+        '@@ -1,1 +1,1 @@',
+        '-a()',
+        '+b()',
+        'File: package-lock.json',
+        '@@ -1,1 +1,1 @@',
+        '-{}',
+        '+{ }'
+      ].join('\n'));
 
       await run();
 
-      // Verify filtering was applied
-      expect(mockDiffProcessor.filterFiles).toHaveBeenCalledWith(
-        ['test.js'],
-        ['*.min.js', 'package-lock.json']
+      // Skipped files are cut from the diff before chunking
+      expect(mockDiffProcessor.chunkDiff).toHaveBeenCalledWith('File: test.js\n@@ -1,1 +1,1 @@\n-let a = 1;\n+const a = 1;');
+      expect(mockGitHubClient.createReviewComment).toHaveBeenCalledWith(
+        'test-owner',
+        'test-repo',
+        123,
+        expect.stringContaining('### 🚫 Skipped Files\n\n- `dist/app.min.js`: matched skip-pattern "*.min.js"\n- `package-lock.json`: matched skip-pattern "package-lock.json"')
       );
     });
 
@@ -347,6 +361,47 @@ describe('Integration Tests - Complete Workflow', () => {
       );
     });
 
+    it('should fail when the ensemble quorum exceeds the providers asked per chunk', async () => {
+      const defaultInput = mockGetInput.getMockImplementation();
+      const ensembleInputs: Record<string, string> = { 'review-mode': 'ensemble', 'ensemble-size': '2', 'ensemble-quorum': '3' };
+      mockGetInput.mockImplementation((name, options) => ensembleInputs[name] ?? defaultInput?.(name, options) ?? '');
+
+      await run();
+
+      expect(mockSetFailed).toHaveBeenCalledWith('ensemble-quorum (3) must not exceed the 2 provider(s) asked per chunk');
+      expect(mockProviderManager.analyzeCode).not.toHaveBeenCalled();
+
+      mockSetFailed.mockClear();
+      ensembleInputs['ensemble-size'] = '';
+      await run();
+
+      expect(mockSetFailed).not.toHaveBeenCalled();
+    });
+
+    it('should not post an all-clear when the budget leaves no chunk to sample', async () => {
+      const defaultInput = mockGetInput.getMockImplementation();
+      mockGetInput.mockImplementation((name, options) => name === 'budget-max-tokens' ? '1' : defaultInput?.(name, options) ?? '');
+
+      await run();
+
+      expect(mockProviderManager.analyzeCode).not.toHaveBeenCalled();
+      const comment = mockGitHubClient.createReviewComment.mock.calls[0][3];
+      expect(comment).toContain('**Review aborted**');
+      expect(comment).not.toContain('Excellent Work');
+    });
+
+    it('should not send the GitHub token to an Azure endpoint without keys', async () => {
+      const defaultInput = mockGetInput.getMockImplementation();
+      const azureInputs: Record<string, string> = { providers: 'azure-openai', 'azure-openai-endpoint': 'https://contoso.openai.azure.com' };
+      mockGetInput.mockImplementation((name, options) => azureInputs[name] ?? defaultInput?.(name, options) ?? '');
+
+      await run();
+
+      expect(mockSetFailed).toHaveBeenCalledWith('azure-openai-api-keys is required for the azure-openai provider');
+      expect(AzureOpenAI).not.toHaveBeenCalled();
+      expect(mockGitHubClient.createReviewComment).not.toHaveBeenCalled();
+    });
+
     it('should handle no API keys configured', async () => {
       mockGetMultilineInput.mockReturnValue([]);
 
@@ -585,5 +640,24 @@ describe('Integration Tests - Complete Workflow', () => {
         })
       );
     });
+
+    it('should keep findings in files outside the diff in the summary comment only', async () => {
+      mockProviderManager.analyzeCode.mockResolvedValue({
+        summary: 'Review completed',
+        suggestions: [{ file: 'elsewhere.js', line: 5, severity: 'high' as const, message: 'Hard-coded credentials' }],
+        confidence: 0.8
+      });
+
+      await run();
+
+      expect(mockGitHubClient.createReviewCommentThread).not.toHaveBeenCalled();
+      expect(mockGitHubClient.createReviewComment).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        expect.any(Number),
+        expect.stringContaining('Hard-coded credentials')
+      );
+      expect(mockInfo).toHaveBeenCalledWith('Skipping inline comment for elsewhere.js:5: the file is not part of the diff');
+    });
   });
 });
@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptBuilder, getBuiltInTemplate, loadPromptTemplate } from '../../src/prompts/PromptBuilder';
+import { LATEST_PROMPT_VERSION, PromptTemplateError, renderTemplate } from '../../src/prompts/PromptTemplate';
+import { ReviewContext } from '../../src/providers/IProvider';
+
+describe('PromptBuilder', () => {
+  const context: ReviewContext = {
+    prNumber: 42,
+    repository: 'acme/widgets',
+    branch: 'feature/login',
+    files: ['src/login.ts', 'src/session.ts'],
+    focusAreas: ['security'],
+    customInstructions: 'Sessions must expire after 30 minutes.'
+  };
+
+  it('should render repository, PR, files, focus and guidelines into the user prompt', () => {
+    const prompt = new PromptBuilder().build('openai', '+const x = 1;', context);
+
+    expect(prompt.user).toContain('Repository: acme/widgets');
+    expect(prompt.user).toContain('PR Number: 42');
+    expect(prompt.user).toContain('Files in this chunk (2):\n- src/login.ts\n- src/session.ts');
+    expect(prompt.user).toContain('+const x = 1;');
+    expect(prompt.user).toContain('Security:');
+    expect(prompt.user).toContain('Sessions must expire after 30 minutes.');
+    expect(prompt.user).toContain('"severity": "low|medium|high"');
+  });
+
+  it('should list the files of a chunk with their line ranges from the manifest', () => {
+    const prompt = new PromptBuilder().build('openai', 'diff', {
+      ...context,
+      manifest: [
+        { file: 'src/login.ts', status: 'modified', lines: [{ start: 10, end: 14 }, { start: 40, end: 40 }], partial: true },
+        { file: 'src/old.ts', status: 'deleted', lines: [], partial: false }
+      ]
+    });
+
+    expect(prompt.user).toContain([
+      '- src/login.ts (modified, lines 10-14, 40; other hunks of this file are reviewed separately)',
+      '- src/old.ts (deleted)'
+    ].join('\n'));
+  });
+
+  it('should drop the guidelines section when there are no custom instructions', () => {
+    const prompt = new PromptBuilder().build('openai', 'diff', { ...context, customInstructions: undefined });
+
+    expect(prompt.user).not.toContain('Additional instructions');
+    expect(prompt.user).not.toContain('{{');
+  });
+
+  it('should apply per-provider overrides and share the rest', () => {
+    const builder = new PromptBuilder();
+    const claude = builder.build('claude', 'diff', context);
+    const gemini = builder.build('gemini', 'diff', context);
+
+    expect(claude.system).toContain('Reply with the JSON object only');
+    expect(gemini.system).not.toContain('Reply with the JSON object only');
+    expect(claude.user).toBe(gemini.user);
+  });
+
+  it('should append the repair request after the template', () => {
+    const prompt = new PromptBuilder().build('openai', 'diff', {
+      ...context,
+      repair: { errors: ['suggestions[0]: missing "file"'], previousResponse: '{"summary": "x"}' }
+    });
+
+    expect(prompt.user).toMatch(/Your previous answer to this request could not be used:\n- suggestions\[0\]: missing "file"/);
+    expect(prompt.user).toContain('Previous answer:\n{"summary": "x"}');
+    expect(prompt.user.indexOf('Previous answer')).toBeGreaterThan(prompt.user.indexOf('diff'));
+  });
+
+  it('should reject unknown built-in versions', () => {
+    expect(getBuiltInTemplate(LATEST_PROMPT_VERSION).version).toBe(LATEST_PROMPT_VERSION);
+    expect(() => getBuiltInTemplate('v99')).toThrow(PromptTemplateError);
+  });
+
+  it('should render and drop template sections', () => {
+    const variables = { guidelines: '', diff: 'x' } as any;
+
+    expect(renderTemplate('a{{#guidelines}} b {{guidelines}}{{/guidelines}} {{diff}}', variables)).toBe('a x');
+  });
+});
+
+describe('loadPromptTemplate', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'code-review-prompt-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should merge a repository template over the built-in base', () => {
+    fs.writeFileSync(path.join(workspace, 'prompt.yml'), `
+version: acme-2024
+user: |
+  Review {{repository}} carefully.
+  {{diff}}
+  {{responseFormat}}
+providers:
+  gemini:
+    system: Gemini-specific reviewer for {{repository}}.
+`);
+
+    const template = loadPromptTemplate('prompt.yml', workspace);
+    const builder = new PromptBuilder(template);
+
+    expect(builder.getVersion()).toBe('acme-2024');
+    expect(builder.build('openai', 'the-diff', {
+      prNumber: 1, repository: 'acme/widgets', branch: 'main', files: []
+    }).user).toContain('Review acme/widgets carefully.\nthe-diff');
+    expect(builder.build('gemini', 'd', {
+      prNumber: 1, repository: 'acme/widgets', branch: 'main', files: []
+    }).system).toBe('Gemini-specific reviewer for acme/widgets.');
+    // The built-in Claude system override is kept because the file does not replace the system prompt
+    expect(template.providers?.claude?.system).toContain('Reply with the JSON object only');
+  });
+
+  it('should reject templates with unknown variables or without the diff', () => {
+    fs.writeFileSync(path.join(workspace, 'bad-var.yml'), 'user: "{{diff}} {{author}}"');
+    fs.writeFileSync(path.join(workspace, 'no-diff.yml'), 'user: "Review {{repository}}"');
+
+    expect(() => loadPromptTemplate('bad-var.yml', workspace)).toThrow('unknown variable "author" in user');
+    expect(() => loadPromptTemplate('no-diff.yml', workspace)).toThrow('user prompt must include {{diff}}');
+  });
+
+  it('should report a missing template file', () => {
+    expect(() => loadPromptTemplate('missing.yml', workspace)).toThrow('Prompt template file not found: missing.yml');
+  });
+});
@@ -0,0 +1,37 @@
+import { renderFocusInstructions, resolveFocusAreas, FOCUS_PROFILES } from '../../src/prompts/ReviewFocus';
+import { ReviewContext } from '../../src/providers/IProvider';
+
+describe('ReviewFocus', () => {
+  const baseContext: ReviewContext = {
+    prNumber: 1,
+    repository: 'test/repo',
+    branch: 'feature',
+    files: ['src/app.ts']
+  };
+
+  it('should use the default focus areas when none are given', () => {
+    expect(resolveFocusAreas(undefined).map(profile => profile.name)).toEqual(['security', 'performance', 'style']);
+    expect(resolveFocusAreas([]).map(profile => profile.name)).toEqual(['security', 'performance', 'style']);
+  });
+
+  it('should map aliases onto predefined profiles without duplicates', () => {
+    const profiles = resolveFocusAreas(['Bugs', 'correctness', 'testing']);
+
+    expect(profiles.map(profile => profile.name)).toEqual(['correctness', 'tests']);
+  });
+
+  it('should expand each profile into its checklist', () => {
+    const instructions = renderFocusInstructions({ ...baseContext, focusAreas: ['security', 'tests'] });
+
+    expect(instructions).toContain('Security:');
+    FOCUS_PROFILES.security.checklist.forEach(item => expect(instructions).toContain(`- ${item}`));
+    expect(instructions).toContain('Tests:');
+    expect(instructions).not.toContain('Performance:');
+  });
+
+  it('should keep unknown focus areas as free-form items', () => {
+    const instructions = renderFocusInstructions({ ...baseContext, focusAreas: ['performance', 'Accessibility'] });
+
+    expect(instructions).toContain('Also pay attention to:\n- Accessibility');
+  });
+});
@@ -1,4 +1,5 @@
-import { BaseProvider } from '../../src/providers/BaseProvider';
+import { BaseProvider, DEFAULT_KEY_COOLDOWN_MS, maskApiKey } from '../../src/providers/BaseProvider';
+import { toProviderError } from '../../src/providers/ProviderError';
 import { ReviewContext, ReviewResult } from '../../src/providers/IProvider';
 
 class TestProvider extends BaseProvider {
@@ -46,6 +47,14 @@ class TestProvider extends BaseProvider {
   public testAdvanceToNextApiKey(): void {
     this.advanceToNextApiKey();
   }
+
+  public testMarkKeySuccess(key: string): void {
+    this.markKeySuccess(key);
+  }
+
+  public testMarkKeyFailure(key: string, error: unknown): void {
+    this.markKeyFailure(key, error);
+  }
 }
 
 describe('BaseProvider', () => {
@@ -125,4 +134,74 @@ describe('BaseProvider', () => {
     provider.testAdvanceToNextApiKey();
     expect(provider.testGetCurrentApiKey()).toBe('single-key');
   });
+
+  describe('key health', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should skip keys disabled by authentication failures', () => {
+      const provider = new TestProvider(['key-one-1111', 'key-two-2222', 'key-three-3333']);
+
+      provider.testMarkKeyFailure('key-two-2222', toProviderError({ status: 401 }, 'TestProvider'));
+      provider.testAdvanceToNextApiKey();
+
+      expect(provider.testGetCurrentApiKey()).toBe('key-three-3333');
+      provider.testAdvanceToNextApiKey();
+      expect(provider.testGetCurrentApiKey()).toBe('key-one-1111');
+    });
+
+    it('should put rate-limited keys on cooldown and recover them afterwards', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000000);
+      const provider = new TestProvider(['key1', 'key2']);
+
+      provider.testMarkKeyFailure('key1', toProviderError({ status: 429, headers: { 'retry-after': '30' } }, 'TestProvider'));
+      expect(provider.testGetCurrentApiKey()).toBe('key2');
+      provider.testAdvanceToNextApiKey();
+      expect(provider.testGetCurrentApiKey()).toBe('key2');
+
+      now.mockReturnValue(1000000 + 30000);
+      provider.testAdvanceToNextApiKey();
+      expect(provider.testGetCurrentApiKey()).toBe('key1');
+    });
+
+    it('should fall back to the key that recovers first when all are cooling down', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(0);
+      const provider = new TestProvider(['key1', 'key2']);
+
+      provider.testMarkKeyFailure('key1', { status: 429 });
+      provider.testMarkKeyFailure('key2', toProviderError({ status: 429, headers: { 'retry-after': '5' } }, 'TestProvider'));
+
+      expect(provider.testGetCurrentApiKey()).toBe('key2');
+      expect(provider.getKeyStats()[0].cooldownUntil).toEqual(new Date(DEFAULT_KEY_COOLDOWN_MS));
+    });
+
+    it('should fail with an auth error once every key is disabled', () => {
+      const provider = new TestProvider(['key1']);
+      provider.testMarkKeyFailure('key1', { status: 429, code: 'insufficient_quota' });
+
+      expect(() => provider.testGetCurrentApiKey()).toThrow('TestProvider API error: Authentication failed: all 1 API key(s) were disabled');
+    });
+
+    it('should not throw when advancing past the last disabled key', () => {
+      const provider = new TestProvider(['key1', 'key2']);
+      provider.testMarkKeyFailure('key1', { status: 401 });
+      provider.testMarkKeyFailure('key2', { status: 401 });
+
+      expect(() => provider.testAdvanceToNextApiKey()).not.toThrow();
+      expect(() => provider.testGetCurrentApiKey()).toThrow('TestProvider API error: Authentication failed: all 2 API key(s) were disabled');
+    });
+
+    it('should report masked per-key counts', () => {
+      const provider = new TestProvider(['sk-abcdefgh1234', 'short']);
+      provider.testMarkKeySuccess('sk-abcdefgh1234');
+      provider.testMarkKeyFailure('short', { status: 500 });
+
+      expect(provider.getKeyStats()).toEqual([
+        { key: '****1234', successCount: 1, failureCount: 0, lastError: undefined, disabled: false, cooldownUntil: undefined },
+        { key: '****', successCount: 0, failureCount: 1, lastError: 'server', disabled: false, cooldownUntil: undefined }
+      ]);
+      expect(maskApiKey('')).toBe('(none)');
+    });
+  });
 });
@@ -0,0 +1,144 @@
+import * as core from '@actions/core';
+import { CircuitBreaker, DEFAULT_CIRCUIT_BREAKER_OPTIONS, readCircuitBreakerOptions } from '../../src/providers/CircuitBreaker';
+import { ProviderManager } from '../../src/providers/ProviderManager';
+import { IProvider } from '../../src/providers/IProvider';
+import { ActionInputs } from '../../src/config/ActionInputs';
+import { BadResponseError } from '../../src/providers/ProviderError';
+
+jest.mock('@actions/core');
+
+describe('CircuitBreaker', () => {
+  const options = { failureThreshold: 2, cooldownMs: 1000 };
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    time = 0;
+  });
+
+  it('should open after consecutive failures and skip requests', () => {
+    const breaker = new CircuitBreaker('OpenAI', options, now);
+
+    breaker.recordFailure('server');
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure('timeout');
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Circuit for OpenAI closed → open after 2 consecutive failures'));
+  });
+
+  it('should reset the count on success', () => {
+    const breaker = new CircuitBreaker('OpenAI', options, now);
+
+    breaker.recordFailure('server');
+    breaker.recordSuccess();
+    breaker.recordFailure('server');
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should let a single probe through after the cooldown', () => {
+    const breaker = new CircuitBreaker('OpenAI', options, now);
+    breaker.recordFailure('network');
+    breaker.recordFailure('network');
+
+    time = 1000;
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getSnapshot()).toEqual({ state: 'closed', consecutiveFailures: 0, openedAt: undefined });
+    expect(core.info).toHaveBeenCalledWith('⚡ Circuit for OpenAI half-open → closed');
+  });
+
+  it('should reopen when the probe fails', () => {
+    const breaker = new CircuitBreaker('OpenAI', options, now);
+    breaker.recordFailure('server');
+    breaker.recordFailure('server');
+
+    time = 1500;
+    breaker.allowRequest();
+    breaker.recordFailure('server');
+
+    expect(breaker.getSnapshot()).toEqual({ state: 'open', consecutiveFailures: 3, openedAt: new Date(1500) });
+    time = 2000;
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should ignore failures caused by the request itself', () => {
+    const breaker = new CircuitBreaker('OpenAI', options, now);
+
+    breaker.recordFailure('content-blocked');
+    breaker.recordFailure('bad-response');
+    breaker.recordFailure('content-blocked');
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should never open with a threshold of 0', () => {
+    const breaker = new CircuitBreaker('OpenAI', { failureThreshold: 0, cooldownMs: 1000 }, now);
+
+    for (let i = 0; i < 5; i++) breaker.recordFailure('server');
+
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should read its settings from inputs', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => (name === 'circuit-breaker-threshold' ? '5' : ''));
+
+    expect(readCircuitBreakerOptions(new ActionInputs({}))).toEqual({ ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, failureThreshold: 5 });
+    expect(() => readCircuitBreakerOptions(new ActionInputs({ 'circuit-breaker-cooldown': 'soon' })))
+      .toThrow('Invalid input circuit-breaker-cooldown');
+  });
+
+  describe('ProviderManager circuits', () => {
+    const context = { prNumber: 1, repository: 'a/b', branch: 'main', files: [] };
+    const retry = { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, budget: 0 };
+
+    beforeEach(() => {
+      (core.getInput as jest.Mock).mockReturnValue('');
+    });
+
+    it('should skip a provider with an open circuit', async () => {
+      const down: IProvider = { name: 'OpenAI', analyzeCode: jest.fn().mockRejectedValue(Object.assign(new Error('down'), { status: 503 })) };
+      const backup: IProvider = { name: 'Claude', analyzeCode: jest.fn().mockResolvedValue({ summary: 'ok', suggestions: [], confidence: 0.8 }) };
+      const manager = new ProviderManager([down, backup], false, {
+        routing: { name: 'priority', order: providers => providers, describe: () => ({ strategy: 'priority' }) },
+        retry,
+        circuitBreaker: { failureThreshold: 2, cooldownMs: 60000 }
+      });
+
+      for (let i = 0; i < 4; i++) {
+        await manager.analyzeCode('diff', context);
+      }
+
+      expect(down.analyzeCode).toHaveBeenCalledTimes(2);
+      expect(backup.analyzeCode).toHaveBeenCalledTimes(4);
+      expect(manager.getDetailedStats()[0].circuit).toMatchObject({ state: 'open', consecutiveFailures: 2 });
+    });
+
+    it('should not count invalid responses towards the threshold', async () => {
+      const flaky: IProvider = {
+        name: 'Gemini',
+        analyzeCode: jest.fn().mockRejectedValue(new BadResponseError('Gemini API error: Invalid response', { provider: 'Gemini' }))
+      };
+      const manager = new ProviderManager([flaky], false, { retry, circuitBreaker: { failureThreshold: 1, cooldownMs: 60000 } });
+
+      await expect(manager.analyzeCode('diff', context)).rejects.toThrow('Invalid response');
+      await expect(manager.analyzeCode('diff', context)).rejects.toThrow('Invalid response');
+
+      expect(flaky.analyzeCode).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail fast when every circuit is open', async () => {
+      const down: IProvider = { name: 'OpenAI', analyzeCode: jest.fn().mockRejectedValue(Object.assign(new Error('down'), { status: 500 })) };
+      const manager = new ProviderManager([down], false, { retry, circuitBreaker: { failureThreshold: 1, cooldownMs: 60000 } });
+
+      await expect(manager.analyzeCode('diff', context)).rejects.toThrow('down');
+      await expect(manager.analyzeCode('diff', context)).rejects.toThrow('All providers are unavailable: circuit open for OpenAI');
+    });
+  });
+});
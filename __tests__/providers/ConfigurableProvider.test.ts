@@ -1,4 +1,4 @@
-import { ConfigurableProvider, ProviderConfig } from '../../src/providers/BaseProvider';
+import { ConfigurableProvider, ProviderConfig, ProviderConfigError } from '../../src/providers/BaseProvider';
 import { ReviewContext, ReviewResult } from '../../src/providers/IProvider';
 
 class TestConfigurableProvider extends ConfigurableProvider {
@@ -50,6 +50,10 @@ class TestConfigurableProvider extends ConfigurableProvider {
   public testGetTimeout(): number {
     return this.getTimeout();
   }
+
+  public testGetBaseUrl(): string | undefined {
+    return this.getBaseUrl();
+  }
 }
 
 describe('ConfigurableProvider', () => {
@@ -164,4 +168,33 @@ describe('ConfigurableProvider', () => {
     expect(modelInfo.model).toBe('default-model');
     expect(modelInfo.maxTokens).toBe(2048);
   });
+
+  it('should keep an explicit temperature of 0 and expose the base URL', () => {
+    const provider = new TestConfigurableProvider({
+      name: 'TestProvider',
+      apiKeys: ['key1'],
+      temperature: 0,
+      baseUrl: 'https://gateway.example.com/v1'
+    });
+
+    expect(provider.testGetTemperature()).toBe(0);
+    expect(provider.testGetBaseUrl()).toBe('https://gateway.example.com/v1');
+  });
+
+  it('should reject invalid settings before any request is made', () => {
+    const invalidConfigs: Array<[Partial<ProviderConfig>, string]> = [
+      [{ model: '  ' }, 'model cannot be empty'],
+      [{ maxTokens: 0 }, 'maxTokens must be a positive integer'],
+      [{ maxTokens: 10.5 }, 'maxTokens must be a positive integer'],
+      [{ temperature: 2.5 }, 'temperature must be between 0 and 2'],
+      [{ timeout: -1 }, 'timeout must be a positive number of milliseconds'],
+      [{ baseUrl: 'gateway.example.com' }, 'baseUrl must be an http(s) URL']
+    ];
+
+    invalidConfigs.forEach(([overrides, message]) => {
+      const create = () => new TestConfigurableProvider({ name: 'TestProvider', apiKeys: ['key1'], ...overrides });
+      expect(create).toThrow(ProviderConfigError);
+      expect(create).toThrow(`Invalid TestProvider configuration: ${message}`);
+    });
+  });
 });
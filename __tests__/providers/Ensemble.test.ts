@@ -0,0 +1,60 @@
+import { mergeEnsembleResults } from '../../src/providers/Ensemble';
+import { ReviewResult, ReviewSuggestion } from '../../src/providers/IProvider';
+
+describe('mergeEnsembleResults', () => {
+  const result = (suggestions: ReviewSuggestion[], confidence = 0.8): ReviewResult => ({
+    summary: 'summary',
+    suggestions,
+    confidence
+  });
+
+  const finding = (line: number, message: string, severity: ReviewSuggestion['severity'] = 'medium', file = 'src/app.ts') =>
+    ({ file, line, severity, message });
+
+  it('should group findings on nearby lines with similar messages', () => {
+    const merged = mergeEnsembleResults([
+      { provider: 'openai', result: result([finding(20, 'Unvalidated user input passed to exec')]) },
+      { provider: 'claude', result: result([finding(22, 'User input passed to exec without validation', 'high')]) }
+    ]);
+
+    expect(merged.suggestions).toHaveLength(1);
+    expect(merged.suggestions[0]).toMatchObject({ line: 22, severity: 'high', providers: ['openai', 'claude'], confidence: 1 });
+    expect(merged.confidence).toBe(1);
+  });
+
+  it('should keep findings apart when file, line or message differ', () => {
+    const merged = mergeEnsembleResults([
+      { provider: 'openai', result: result([finding(20, 'Unvalidated user input passed to exec')]) },
+      { provider: 'claude', result: result([
+        finding(20, 'Unvalidated user input passed to exec', 'medium', 'src/other.ts'),
+        finding(40, 'Unvalidated user input passed to exec'),
+        finding(21, 'Variable name is misleading')
+      ]) }
+    ]);
+
+    expect(merged.suggestions).toHaveLength(4);
+    expect(merged.suggestions.every(s => s.confidence === 0.5)).toBe(true);
+  });
+
+  it('should downgrade high severity findings below the quorum', () => {
+    const merged = mergeEnsembleResults([
+      { provider: 'openai', result: result([finding(5, 'Hard-coded credentials', 'high')]) },
+      { provider: 'claude', result: result([]) },
+      { provider: 'gemini', result: result([]) }
+    ], { quorum: 2 });
+
+    expect(merged.suggestions[0].severity).toBe('medium');
+    expect(merged.suggestions[0].confidence).toBeCloseTo(1 / 3);
+  });
+
+  it('should average provider confidence when nothing was found', () => {
+    const merged = mergeEnsembleResults([
+      { provider: 'openai', result: result([], 0.8) },
+      { provider: 'claude', result: result([], 0.6) }
+    ]);
+
+    expect(merged.suggestions).toEqual([]);
+    expect(merged.confidence).toBeCloseTo(0.7);
+    expect(merged.summary).toBe('**openai:** summary\n\n**claude:** summary');
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  capacityProfile,
+  DEFAULT_CONTEXT_WINDOW,
+  findContextWindow,
+  MIN_CHUNK_TOKENS,
+  parseContextWindows
+} from '../../src/providers/ModelCapacity';
+import { PROMPT_OVERHEAD_TOKENS } from '../../src/diff/ReviewBudget';
+
+describe('ModelCapacity', () => {
+  it('should match models by longest prefix', () => {
+    expect(findContextWindow('gpt-4')).toBe(8192);
+    expect(findContextWindow('gpt-4o-mini-2024-07-18')).toBe(128000);
+    expect(findContextWindow('gpt-4.1-mini')).toBe(1047576);
+    expect(findContextWindow('claude-3-5-sonnet-20241022')).toBe(200000);
+    expect(findContextWindow('models/gemini-1.5-pro')).toBe(2097152);
+    expect(findContextWindow('my-deployment')).toBeUndefined();
+  });
+
+  it('should reserve room for the prompt and the response', () => {
+    expect(capacityProfile('gpt-4', 1000)).toEqual({
+      model: 'gpt-4',
+      contextWindow: 8192,
+      promptTokens: PROMPT_OVERHEAD_TOKENS,
+      responseTokens: 1000,
+      chunkTokens: 8192 - PROMPT_OVERHEAD_TOKENS - 1000
+    });
+  });
+
+  it('should count custom instructions as prompt', () => {
+    const profile = capacityProfile('gpt-4', 1000, undefined, 'x'.repeat(400));
+
+    expect(profile.promptTokens).toBe(PROMPT_OVERHEAD_TOKENS + 100);
+  });
+
+  it('should assume the default window for unknown models and never go below the minimum', () => {
+    expect(capacityProfile('llama3', 0).contextWindow).toBe(DEFAULT_CONTEXT_WINDOW);
+    expect(capacityProfile('llama3', 1000, { llama3: 1024 }).chunkTokens).toBe(MIN_CHUNK_TOKENS);
+  });
+
+  it('should parse context window overrides', () => {
+    expect(parseContextWindows(['Llama3=8192', ' my-deployment = 128000 '])).toEqual({ llama3: 8192, 'my-deployment': 128000 });
+    expect(() => parseContextWindows(['llama3'])).toThrow('Invalid model-context-windows entry "llama3": expected "model=tokens"');
+    expect(() => parseContextWindows(['llama3=0'])).toThrow('Invalid model-context-windows entry');
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  AuthError,
+  BadResponseError,
+  classifyError,
+  ContentBlockedError,
+  createProviderError,
+  NetworkError,
+  ProviderFailureTracker,
+  ProviderTimeoutError,
+  QuotaExceededError,
+  RateLimitError,
+  redactSecrets,
+  ServerError,
+  toProviderError
+} from '../../src/providers/ProviderError';
+import { AzureContentFilterError } from '../../src/providers/azure/AzureOpenAIProvider';
+import { ProviderManager } from '../../src/providers/ProviderManager';
+import { IProvider } from '../../src/providers/IProvider';
+
+jest.mock('@actions/core');
+
+describe('provider error taxonomy', () => {
+  it('should classify SDK and HTTP failures', () => {
+    expect(toProviderError({ status: 401 }, 'OpenAI')).toBeInstanceOf(AuthError);
+    expect(toProviderError({ status: 400, error: { type: 'error', error: { type: 'authentication_error' } } }, 'Claude')).toBeInstanceOf(AuthError);
+    expect(toProviderError({ status: 429 }, 'OpenAI')).toBeInstanceOf(RateLimitError);
+    expect(toProviderError({ status: 429, code: 'insufficient_quota' }, 'OpenAI')).toBeInstanceOf(QuotaExceededError);
+    expect(toProviderError({ status: 400, message: 'Your credit balance is too low' }, 'Claude')).toBeInstanceOf(QuotaExceededError);
+    expect(toProviderError(Object.assign(new Error('timed out'), { name: 'APIConnectionTimeoutError' }), 'OpenAI')).toBeInstanceOf(ProviderTimeoutError);
+    expect(toProviderError(new TypeError('fetch failed'), 'OpenAI-compatible')).toBeInstanceOf(NetworkError);
+    expect(toProviderError({ status: 529 }, 'Claude')).toBeInstanceOf(ServerError);
+    expect(toProviderError(new Error('[GoogleGenerativeAI Error]: Response was blocked due to SAFETY'), 'Gemini')).toBeInstanceOf(ContentBlockedError);
+    expect(classifyError({ status: 404 })).toBe('unknown');
+  });
+
+  it('should decide retryability by type', () => {
+    expect(toProviderError({ status: 429 }, 'OpenAI').retryable).toBe(true);
+    expect(toProviderError({ status: 429, code: 'insufficient_quota' }, 'OpenAI').retryable).toBe(false);
+    expect(toProviderError({ status: 403 }, 'OpenAI').retryable).toBe(false);
+    expect(new BadResponseError('Claude API error: Invalid response', { provider: 'Claude' }).retryable).toBe(false);
+  });
+
+  it('should build messages with the label, status and redacted detail', () => {
+    const error = createProviderError('timeout', { provider: 'Gemini', status: 504, detail: 'deadline exceeded' });
+
+    expect(error.message).toBe('Gemini API error: Request timed out (HTTP 504): deadline exceeded');
+    expect(error).toMatchObject({ type: 'timeout', provider: 'Gemini', name: 'ProviderTimeoutError' });
+  });
+
+  it('should redact credentials and shorten long details', () => {
+    expect(redactSecrets('bad key sk-ant-api03-abcdefghijkl, AIzaSyA1234567890abcdefghijklmn'))
+      .toBe('bad key [REDACTED], [REDACTED]');
+    expect(redactSecrets('GET https://host/v1?key=abc123&alt=json with Authorization: Bearer tok.en'))
+      .toBe('GET https://host/v1?key=[REDACTED]&alt=json with Authorization: [REDACTED]');
+    expect(redactSecrets('x'.repeat(300))).toHaveLength(201);
+  });
+
+  it('should treat Azure content filter errors as content blocks', () => {
+    const error = new AzureContentFilterError(['hate'], 'prompt');
+
+    expect(error).toBeInstanceOf(ContentBlockedError);
+    expect(error.type).toBe('content-blocked');
+  });
+
+  it('should count failures by type and provider', () => {
+    const tracker = new ProviderFailureTracker();
+    tracker.record('OpenAI', { status: 429 });
+    tracker.record('Claude', { status: 429 });
+    tracker.record('OpenAI', { status: 401 });
+
+    expect(tracker.getCountsByType()).toEqual({ auth: 1, 'rate-limit': 2 });
+    expect(tracker.getProviders('rate-limit')).toEqual({ OpenAI: 1, Claude: 1 });
+    expect(tracker.getTotal()).toBe(3);
+  });
+
+  it('should group ProviderManager failures by type', async () => {
+    const failing = (name: string, error: unknown): IProvider => ({ name, analyzeCode: jest.fn().mockRejectedValue(error) });
+    const failures = new ProviderFailureTracker();
+    const manager = new ProviderManager([
+      failing('OpenAI', toProviderError({ status: 401 }, 'OpenAI')),
+      failing('Claude', new BadResponseError('Claude API error: Invalid response', { provider: 'Claude' }))
+    ], false, { failures });
+
+    await expect(manager.analyzeCode('diff', { prNumber: 1, repository: 'a/b', branch: 'main', files: [] })).rejects.toThrow('Invalid response');
+
+    expect(manager.getFailureSummary()).toEqual({ auth: 1, 'bad-response': 1 });
+    expect(failures.getTotal()).toBe(2);
+    expect(manager.getDetailedStats()[0].failuresByType).toEqual({ auth: 1 });
+  });
+});
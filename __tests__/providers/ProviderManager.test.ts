@@ -1,5 +1,6 @@
 import { ProviderManager } from '../../src/providers/ProviderManager';
 import { IProvider, ReviewResult, ReviewContext } from '../../src/providers/IProvider';
+import { parseReviewResponse } from '../../src/providers/responseParser';
 
 class TestProvider implements IProvider {
   constructor(public name: string, private shouldFail: boolean = false) {}
@@ -90,4 +91,151 @@ describe('ProviderManager', () => {
     expect(stats['provider1']).toBe(2);
     expect(stats['provider2']).toBe(1);
   });
+
+  describe('ensemble mode', () => {
+    const context = { prNumber: 123, repository: 'test/repo', branch: 'main', files: ['src/db.ts'] };
+
+    const reporting = (name: string, message: string): IProvider => ({
+      name,
+      analyzeCode: async () => ({
+        summary: `Review from ${name}`,
+        suggestions: [{ file: 'src/db.ts', line: 10, severity: 'high', message }],
+        confidence: 0.8
+      })
+    });
+
+    it('should query every provider and merge agreeing findings', async () => {
+      const manager = new ProviderManager([
+        reporting('openai', 'SQL injection through string concatenation'),
+        reporting('claude', 'Possible SQL injection: query built by string concatenation'),
+        new TestProvider('gemini')
+      ], false, { ensemble: { quorum: 2 } });
+
+      const result = await manager.analyzeCode('test diff', context);
+
+      expect(result.suggestions).toHaveLength(1);
+      expect(result.suggestions[0]).toMatchObject({ severity: 'high', providers: ['openai', 'claude'] });
+      expect(result.suggestions[0].confidence).toBeCloseTo(2 / 3);
+      expect(result.summary).toContain('**gemini:** Review from gemini');
+      expect(manager.getUsageStats()).toEqual({ openai: 1, claude: 1, gemini: 1 });
+    });
+
+    it('should keep going when some ensemble members fail', async () => {
+      const manager = new ProviderManager([
+        new TestProvider('failing-provider', true),
+        reporting('openai', 'SQL injection')
+      ], false, { ensemble: { quorum: 2 } });
+
+      const result = await manager.analyzeCode('test diff', context);
+
+      // A single report does not meet the quorum for high severity
+      expect(result.suggestions[0].severity).toBe('medium');
+      expect(manager.getDetailedStats().find(s => s.providerName === 'failing-provider')?.failureCount).toBe(1);
+    });
+
+    it('should fail when every ensemble member fails', async () => {
+      const manager = new ProviderManager([new TestProvider('a', true), new TestProvider('b', true)], false, { ensemble: {} });
+
+      await expect(manager.analyzeCode('test diff', context)).rejects.toThrow('API error');
+    });
+  });
+
+  describe('response validation', () => {
+    const context = { prNumber: 1, repository: 'test/repo', branch: 'main', files: [] };
+    const valid = { file: 'a.ts', line: 3, severity: 'high', message: 'Bug' };
+
+    it('should normalize suggestions and drop invalid ones without a repair', async () => {
+      const provider: IProvider = {
+        name: 'openai',
+        analyzeCode: jest.fn().mockResolvedValue({
+          summary: 'ok',
+          suggestions: [{ ...valid, line: '7', severity: 'critical' }, valid, { message: 'no file' }],
+          confidence: 0.8
+        })
+      };
+      const manager = new ProviderManager([provider]);
+
+      const result = await manager.analyzeCode('diff', context);
+
+      expect(result.suggestions).toEqual([{ ...valid, line: 7 }, valid]);
+      expect(provider.analyzeCode).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send one repair request when the response is unusable', async () => {
+      const analyzeCode = jest.fn()
+        .mockResolvedValueOnce({ summary: 'I found a bug', suggestions: [], confidence: 0.5, parseError: 'No JSON found in response' })
+        .mockResolvedValueOnce({ summary: 'fixed', suggestions: [valid], confidence: 0.8, usage: { inputTokens: 10, outputTokens: 5 } });
+      const manager = new ProviderManager([{ name: 'openai', analyzeCode }]);
+
+      const result = await manager.analyzeCode('diff', context);
+
+      expect(analyzeCode).toHaveBeenCalledTimes(2);
+      expect(analyzeCode.mock.calls[1][1].repair).toEqual({
+        errors: ['the response is not a JSON object (No JSON found in response)'],
+        previousResponse: 'I found a bug'
+      });
+      expect(result).toMatchObject({ summary: 'fixed', suggestions: [valid], usage: { inputTokens: 10, outputTokens: 5 } });
+    });
+
+    it('should ask for a repair of a complete answer with malformed JSON', async () => {
+      const malformed = '{"summary": "x", "suggestions": [{"file": "a.ts", "line": 3, "severity": "high", "message": "Bug"},]}';
+      const analyzeCode = jest.fn()
+        .mockResolvedValueOnce(parseReviewResponse(malformed, { defaultSummary: 'Review completed', confidence: 0.8, fallbackConfidence: 0.5 }))
+        .mockResolvedValueOnce({ summary: 'fixed', suggestions: [valid], confidence: 0.8 });
+      const manager = new ProviderManager([{ name: 'openai', analyzeCode }]);
+
+      const result = await manager.analyzeCode('diff', context);
+
+      expect(analyzeCode).toHaveBeenCalledTimes(2);
+      expect(analyzeCode.mock.calls[1][1].repair.previousResponse).toBe(malformed);
+      expect(result).toMatchObject({ summary: 'fixed', suggestions: [valid] });
+    });
+
+    it('should keep the valid part of the first response when the repair does not help', async () => {
+      const first = { summary: 'first', suggestions: [valid, { file: 'b.ts', line: 0 }, { file: 'c.ts', severity: 'urgent' }], confidence: 0.8 };
+      const analyzeCode = jest.fn()
+        .mockResolvedValueOnce(first)
+        .mockResolvedValueOnce({ summary: 'second', suggestions: 'none', confidence: 0.8 });
+      const manager = new ProviderManager([{ name: 'openai', analyzeCode }]);
+
+      const result = await manager.analyzeCode('diff', context);
+
+      expect(analyzeCode).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ summary: 'first', suggestions: [valid] });
+    });
+  });
+});
+
+describe('ProviderManager context capacity', () => {
+  const context = { prNumber: 1, repository: 'test/repo', branch: 'main', files: [] };
+  const hunk = (start: number) => `@@ -${start},1 +${start},2 @@\n line ${start}\n+${'x'.repeat(1200)}`;
+  const diff = `diff --git a/a.ts b/a.ts\n--- a/a.ts\n+++ b/a.ts\n${hunk(1)}\n${hunk(50)}\n${hunk(90)}`;
+
+  const providerWith = (model: string) => ({
+    name: model,
+    getModelInfo: () => ({ model, maxTokens: 200 }),
+    analyzeCode: jest.fn().mockResolvedValue({ summary: 'ok', suggestions: [], confidence: 0.8 })
+  });
+
+  it('should split a chunk that does not fit the model for that provider', async () => {
+    const provider = providerWith('small-model');
+    const manager = new ProviderManager([provider], false, { contextWindows: { 'small-model': 1200 } });
+
+    const result = await manager.analyzeCode(diff, context);
+
+    expect(provider.analyzeCode).toHaveBeenCalledTimes(3);
+    provider.analyzeCode.mock.calls.forEach(([, partContext]) => expect(partContext.files).toEqual(['a.ts']));
+    expect(provider.analyzeCode.mock.calls[2][0]).toContain('@@ -90,1 +90,2 @@');
+    expect(result.summary).toBe('ok\n\nok\n\nok');
+  });
+
+  it('should send the whole chunk when the model has room for it', async () => {
+    const provider = providerWith('large-model');
+    const manager = new ProviderManager([provider], false, { contextWindows: { 'large-model': 100000 } });
+
+    await manager.analyzeCode(diff, context);
+
+    expect(provider.analyzeCode).toHaveBeenCalledTimes(1);
+    expect(provider.analyzeCode.mock.calls[0][0]).toBe(diff);
+  });
 });
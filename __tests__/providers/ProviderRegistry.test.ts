@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProviderRegistry, registerProviderModule, ProviderFactoryOptions } from '../../src/providers/ProviderRegistry';
+import { createDefaultRegistry } from '../../src/providers/builtinProviders';
+import { loadReviewConfig } from '../../src/config/ConfigLoader';
+import { ActionInputs } from '../../src/config/ActionInputs';
+import { PromptBuilder } from '../../src/prompts/PromptBuilder';
+import { IProvider } from '../../src/providers/IProvider';
+
+jest.mock('@actions/core');
+
+describe('ProviderRegistry', () => {
+  const options: ProviderFactoryOptions = {
+    apiKeys: ['key-1'],
+    settings: { model: 'custom-model' },
+    promptBuilder: new PromptBuilder(),
+    inputs: new ActionInputs()
+  };
+
+  const stubProvider = (name: string): IProvider => ({
+    name,
+    analyzeCode: jest.fn()
+  });
+
+  it('should register the built-in providers in order', () => {
+    const registry = createDefaultRegistry();
+
+    expect(registry.list()).toEqual(['openai', 'claude', 'gemini', 'openai-compatible', 'azure-openai', 'command', 'replay']);
+    expect(registry.get('OpenAI').inputs).toContain('openai-model');
+    expect(Object.keys(registry.getConfigSchemas())).toEqual(['openai', 'claude', 'gemini', 'openai-compatible', 'azure-openai', 'command', 'replay']);
+  });
+
+  it('should build providers through their factory', () => {
+    const registry = new ProviderRegistry();
+    const create = jest.fn(() => stubProvider('Stub'));
+    registry.register({ id: 'Stub', configSchema: { type: 'object', properties: {} }, inputs: [], create });
+
+    const provider = registry.create('stub', options);
+
+    expect(provider.name).toBe('Stub');
+    expect(create).toHaveBeenCalledWith(options);
+  });
+
+  it('should reject duplicate and unknown providers', () => {
+    const registry = createDefaultRegistry();
+
+    expect(() => registry.register({
+      id: 'openai', configSchema: { type: 'object', properties: {} }, inputs: [], create: () => stubProvider('x')
+    })).toThrow('Provider "openai" is already registered');
+    expect(() => registry.get('mistral')).toThrow('Unsupported provider: mistral. Supported providers: openai, claude, gemini, openai-compatible, azure-openai, command, replay.');
+  });
+
+  describe('provider modules', () => {
+    let workspace: string;
+
+    beforeEach(() => {
+      workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'code-review-modules-'));
+      fs.writeFileSync(path.join(workspace, 'internal-provider.js'), `
+module.exports = {
+  provider: {
+    id: 'internal',
+    configSchema: { type: 'object', properties: { endpoint: { type: 'string' } } },
+    inputs: ['internal-endpoint'],
+    create: (options) => ({
+      name: 'Internal',
+      analyzeCode: async () => ({ summary: options.inputs.getInput('internal-endpoint'), suggestions: [], confidence: 1 })
+    })
+  }
+};
+`);
+    });
+
+    afterEach(() => {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it('should register providers exported by a local module', () => {
+      const registry = createDefaultRegistry();
+
+      expect(registerProviderModule(registry, 'internal-provider.js', workspace)).toEqual(['internal']);
+      expect(registry.has('internal')).toBe(true);
+      expect(registry.create('internal', options).name).toBe('Internal');
+    });
+
+    it('should refuse modules outside the repository', () => {
+      expect(() => registerProviderModule(new ProviderRegistry(), '../elsewhere.js', workspace))
+        .toThrow('must be inside the repository');
+    });
+
+    it('should validate config sections of module providers', async () => {
+      fs.mkdirSync(path.join(workspace, '.github'));
+      fs.writeFileSync(path.join(workspace, '.github/code-review.yml'), `
+version: 1
+provider-modules: [internal-provider.js]
+providers: internal
+internal:
+  endpoint: https://review.internal.example.com
+`);
+      const registry = createDefaultRegistry();
+
+      const config = loadReviewConfig('', workspace, registry);
+      const provider = registry.create('internal', { ...options, inputs: new ActionInputs(config?.values) });
+
+      expect(config?.values['internal-endpoint']).toBe('https://review.internal.example.com');
+      expect((await provider.analyzeCode('diff', { prNumber: 1, repository: 'a/b', branch: 'main', files: [] })).summary)
+        .toBe('https://review.internal.example.com');
+    });
+  });
+});
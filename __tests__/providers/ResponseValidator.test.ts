@@ -0,0 +1,56 @@
+import { normalizeSuggestion, validateReviewResult } from '../../src/providers/ResponseValidator';
+import { ReviewResult } from '../../src/providers/IProvider';
+
+describe('ResponseValidator', () => {
+  const result = (suggestions: unknown, extra: Partial<ReviewResult> = {}): ReviewResult =>
+    ({ summary: 'Review', suggestions, confidence: 0.8, ...extra }) as ReviewResult;
+
+  describe('normalizeSuggestion', () => {
+    it('should coerce line numbers and map severity synonyms', () => {
+      expect(normalizeSuggestion({ file: './src/a.ts', line: 'L12', severity: 'Critical', message: ' Bug ', suggestion: 42 }))
+        .toEqual({ file: 'src/a.ts', line: 12, severity: 'high', message: 'Bug', suggestion: '42' });
+      expect(normalizeSuggestion({ file: 'a.ts', line: '5-9', severity: 'nit', message: 'x' })).toMatchObject({ line: 5, severity: 'low' });
+      expect(normalizeSuggestion({ file: 'a.ts', line: 1, message: 'x' })).toMatchObject({ severity: 'medium' });
+    });
+
+    it('should explain why an entry is invalid', () => {
+      expect(normalizeSuggestion('text')).toBe('not an object');
+      expect(normalizeSuggestion({ line: 1, message: 'x' })).toBe('missing "file"');
+      expect(normalizeSuggestion({ file: 'a.ts', line: 'top', message: 'x' })).toBe('"line" must be a positive integer, got "top"');
+      expect(normalizeSuggestion({ file: 'a.ts', line: 2.5, message: 'x' })).toBe('"line" must be a positive integer, got 2.5');
+      expect(normalizeSuggestion({ file: 'a.ts', line: 1, severity: 'urgent', message: 'x' }))
+        .toBe('unknown "severity" "urgent" (expected low, medium or high)');
+      expect(normalizeSuggestion({ file: 'a.ts', line: 1, message: '' })).toBe('missing "message"');
+    });
+  });
+
+  describe('validateReviewResult', () => {
+    const valid = { file: 'a.ts', line: 1, severity: 'low', message: 'x' };
+
+    it('should drop invalid entries and keep the rest', () => {
+      const report = validateReviewResult(result([valid, { file: 'b.ts' }, valid]));
+
+      expect(report.result.suggestions).toHaveLength(2);
+      expect(report.dropped).toEqual([{ index: 1, reason: '"line" must be a positive integer, got nothing' }]);
+      expect(report.errors).toEqual(['suggestions[1]: "line" must be a positive integer, got nothing']);
+      expect(report.needsRepair).toBe(false);
+    });
+
+    it('should ask for a repair when most entries are invalid', () => {
+      expect(validateReviewResult(result([valid, {}, {}])).needsRepair).toBe(true);
+      expect(validateReviewResult(result([{}])).needsRepair).toBe(true);
+    });
+
+    it('should ask for a repair when the response is unreadable', () => {
+      expect(validateReviewResult(result([], { parseError: 'No JSON found in response' }))).toMatchObject({
+        needsRepair: true,
+        errors: ['the response is not a JSON object (No JSON found in response)']
+      });
+      expect(validateReviewResult(result({ file: 'a.ts' })).errors).toEqual(['"suggestions" must be an array']);
+    });
+
+    it('should accept an empty review', () => {
+      expect(validateReviewResult(result([]))).toMatchObject({ needsRepair: false, errors: [] });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import * as core from '@actions/core';
+import { computeBackoff, DEFAULT_RETRY_OPTIONS, readRetryOptions, RetryBudget, withRetry } from '../../src/providers/RetryPolicy';
+import { getRetryAfterMs, ProviderRequestError, toProviderError } from '../../src/providers/ProviderError';
+import { ProviderManager } from '../../src/providers/ProviderManager';
+import { ActionInputs } from '../../src/config/ActionInputs';
+import { IProvider } from '../../src/providers/IProvider';
+
+jest.mock('@actions/core');
+
+describe('retry layer', () => {
+  const options = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, budget: 5 };
+  const rateLimited = (retryAfterMs?: number) =>
+    new ProviderRequestError('OpenAI API error: Request failed (HTTP 429)', { provider: 'OpenAI', status: 429, retryAfterMs });
+  let sleep: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sleep = jest.fn().mockResolvedValue(undefined);
+  });
+
+  describe('withRetry', () => {
+    it('should retry retryable errors with jittered backoff', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(rateLimited())
+        .mockRejectedValueOnce(rateLimited())
+        .mockResolvedValue('ok');
+      const budget = new RetryBudget(5);
+
+      await expect(withRetry(operation, { label: 'OpenAI', options, budget, sleep, random: () => 0.5 })).resolves.toBe('ok');
+
+      expect(sleep.mock.calls).toEqual([[50], [100]]);
+      expect(budget.getUsed()).toBe(2);
+      expect(core.info).toHaveBeenCalledWith(expect.stringContaining('retry 1/2 in 50ms, 4 retries left for this chunk'));
+    });
+
+    it('should wait for the server-provided Retry-After', async () => {
+      const operation = jest.fn().mockRejectedValueOnce(rateLimited(700)).mockResolvedValue('ok');
+
+      await withRetry(operation, { label: 'OpenAI', options, budget: new RetryBudget(5), sleep });
+
+      expect(sleep).toHaveBeenCalledWith(700);
+    });
+
+    it('should not wait for a Retry-After beyond the maximum delay', async () => {
+      const operation = jest.fn().mockRejectedValue(rateLimited(60000));
+
+      await expect(withRetry(operation, { label: 'OpenAI', options, budget: new RetryBudget(5), sleep })).rejects.toThrow('HTTP 429');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry fatal errors', async () => {
+      const operation = jest.fn().mockRejectedValue(
+        new ProviderRequestError('OpenAI API error: Request failed (HTTP 401)', { provider: 'OpenAI', status: 401 }));
+
+      await expect(withRetry(operation, { label: 'OpenAI', options, budget: new RetryBudget(5), sleep })).rejects.toThrow('HTTP 401');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop when the chunk budget is exhausted', async () => {
+      const operation = jest.fn().mockRejectedValue(rateLimited());
+      const budget = new RetryBudget(1);
+
+      await expect(withRetry(operation, { label: 'OpenAI', options, budget, sleep })).rejects.toThrow('HTTP 429');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(core.warning).toHaveBeenCalledWith('Retry budget for this chunk exhausted after 1 retries; not retrying OpenAI');
+    });
+  });
+
+  it('should cap exponential backoff', () => {
+    expect(computeBackoff(1, options, () => 1)).toBe(100);
+    expect(computeBackoff(3, options, () => 1)).toBe(400);
+    expect(computeBackoff(10, options, () => 1)).toBe(1000);
+  });
+
+  describe('error classification', () => {
+    it('should keep status and Retry-After while redacting the message', () => {
+      const error = toProviderError(Object.assign(new Error('429 key sk-secret123456 rate limited'), {
+        status: 429,
+        headers: new Headers({ 'retry-after': '2' })
+      }), 'OpenAI');
+
+      expect(error.message).toBe('OpenAI API error: Rate limited (HTTP 429): 429 key [REDACTED] rate limited');
+      expect(error).toMatchObject({ status: 429, retryAfterMs: 2000, retryable: true });
+    });
+
+    it('should treat network errors and 5xx as retryable and other 4xx as fatal', () => {
+      expect(toProviderError(Object.assign(new Error('timeout'), { name: 'APIConnectionTimeoutError' }), 'Claude').retryable).toBe(true);
+      expect(toProviderError(new TypeError('fetch failed'), 'Claude').retryable).toBe(true);
+      expect(toProviderError({ status: 503 }, 'Claude').retryable).toBe(true);
+      expect(toProviderError({ status: 400 }, 'Claude').retryable).toBe(false);
+      expect(toProviderError(new Error('No response'), 'Claude').retryable).toBe(false);
+    });
+
+    it('should read Gemini retry info details', () => {
+      const error = toProviderError({ status: 429, errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '12s' }] }, 'Gemini');
+
+      expect(error.retryAfterMs).toBe(12000);
+    });
+
+    it('should parse the rate-limit headers of each provider', () => {
+      const now = Date.parse('2026-10-18T12:00:00Z');
+
+      expect(getRetryAfterMs({ 'retry-after-ms': '250' })).toBe(250);
+      expect(getRetryAfterMs({ 'retry-after': 'Sun, 18 Oct 2026 12:00:05 GMT' }, false, now)).toBe(5000);
+      expect(getRetryAfterMs({ 'x-ratelimit-reset-requests': '1m30s' }, true)).toBe(90000);
+      expect(getRetryAfterMs({ 'anthropic-ratelimit-requests-reset': '2026-10-18T12:00:03Z' }, true, now)).toBe(3000);
+      expect(getRetryAfterMs({})).toBeUndefined();
+    });
+
+    it('should wait for the later of the request and token resets', () => {
+      const now = Date.parse('2026-10-18T12:00:00Z');
+
+      expect(getRetryAfterMs({ 'x-ratelimit-reset-requests': '2s', 'x-ratelimit-reset-tokens': '45s' }, true)).toBe(45000);
+      expect(getRetryAfterMs({
+        'anthropic-ratelimit-requests-reset': '2026-10-18T12:00:20Z',
+        'anthropic-ratelimit-tokens-reset': '2026-10-18T12:00:04Z'
+      }, true, now)).toBe(20000);
+    });
+
+    it('should ignore rate-limit reset headers on server errors', () => {
+      const headers = { 'x-ratelimit-reset-tokens': '6m0s', 'anthropic-ratelimit-tokens-reset': '2099-01-01T00:00:00Z' };
+
+      expect(toProviderError({ status: 503, headers }, 'OpenAI').retryAfterMs).toBeUndefined();
+      expect(toProviderError({ status: 429, headers }, 'OpenAI').retryAfterMs).toBe(360000);
+      expect(toProviderError({ status: 503, headers: { ...headers, 'retry-after': '3' } }, 'OpenAI').retryAfterMs).toBe(3000);
+    });
+  });
+
+  it('should read retry settings from inputs', () => {
+    (core.getInput as jest.Mock).mockImplementation((name: string) => (name === 'retry-budget' ? '10' : ''));
+
+    expect(readRetryOptions(new ActionInputs({ 'retry-max-attempts': 5 }))).toEqual({ ...DEFAULT_RETRY_OPTIONS, maxAttempts: 5, budget: 10 });
+    expect(() => readRetryOptions(new ActionInputs({ 'retry-max-attempts': '0' }))).toThrow('Invalid input retry-max-attempts');
+  });
+
+  it('should retry a rate-limited provider before failing over', async () => {
+    const flaky: IProvider = {
+      name: 'OpenAI',
+      analyzeCode: jest.fn()
+        .mockRejectedValueOnce(rateLimited(1))
+        .mockResolvedValue({ summary: 'Recovered', suggestions: [], confidence: 0.8 })
+    };
+    const backup: IProvider = { name: 'Claude', analyzeCode: jest.fn() };
+    const manager = new ProviderManager([flaky, backup], false, { retry: { ...options, baseDelayMs: 1 } });
+
+    const result = await manager.analyzeCode('diff', { prNumber: 1, repository: 'a/b', branch: 'main', files: [] });
+
+    expect(result.summary).toBe('Recovered');
+    expect(backup.analyzeCode).not.toHaveBeenCalled();
+    expect(core.info).toHaveBeenCalledWith('🔁 Chunk used 1 of 5 retries');
+  });
+});
@@ -0,0 +1,54 @@
+import { REVIEW_RESULT_SCHEMA, supportsGeminiResponseSchema, supportsOpenAIJsonSchema } from '../../src/providers/ReviewSchema';
+import { toGeminiSchema } from '../../src/providers/gemini/GeminiProvider';
+import { parseStructuredReview } from '../../src/providers/responseParser';
+
+describe('ReviewSchema', () => {
+  it('should require every property, as OpenAI strict mode demands', () => {
+    const suggestion = REVIEW_RESULT_SCHEMA.properties?.suggestions.items;
+
+    expect(REVIEW_RESULT_SCHEMA.required).toEqual(Object.keys(REVIEW_RESULT_SCHEMA.properties || {}));
+    expect(suggestion?.required).toEqual(Object.keys(suggestion?.properties || {}));
+    expect(suggestion?.additionalProperties).toBe(false);
+  });
+
+  it('should detect OpenAI models with structured outputs', () => {
+    expect(supportsOpenAIJsonSchema('gpt-4o')).toBe(true);
+    expect(supportsOpenAIJsonSchema('gpt-4o-mini')).toBe(true);
+    expect(supportsOpenAIJsonSchema('gpt-4.1')).toBe(true);
+    expect(supportsOpenAIJsonSchema('o3-mini')).toBe(true);
+    expect(supportsOpenAIJsonSchema('gpt-4o-2024-05-13')).toBe(false);
+    expect(supportsOpenAIJsonSchema('gpt-4')).toBe(false);
+    expect(supportsOpenAIJsonSchema('gpt-3.5-turbo')).toBe(false);
+  });
+
+  it('should detect Gemini models with response schemas', () => {
+    expect(supportsGeminiResponseSchema('gemini-1.5-pro')).toBe(true);
+    expect(supportsGeminiResponseSchema('gemini-2.0-flash')).toBe(true);
+    expect(supportsGeminiResponseSchema('gemini-pro')).toBe(false);
+    expect(supportsGeminiResponseSchema('gemini-1.0-pro')).toBe(false);
+  });
+
+  it('should convert the schema to Gemini form', () => {
+    const schema = toGeminiSchema(REVIEW_RESULT_SCHEMA) as any;
+    const suggestion = schema.properties.suggestions.items;
+
+    expect(schema).not.toHaveProperty('additionalProperties');
+    expect(suggestion.properties.severity).toEqual({ type: 'string', format: 'enum', enum: ['low', 'medium', 'high'], description: undefined });
+    expect(suggestion.properties.line.type).toBe('integer');
+  });
+
+  describe('parseStructuredReview', () => {
+    const options = { provider: 'OpenAI', defaultSummary: 'Review completed', confidence: 0.8 };
+
+    it('should accept JSON text and decoded objects', () => {
+      expect(parseStructuredReview('{"summary": "ok", "suggestions": []}', options))
+        .toEqual({ summary: 'ok', suggestions: [], confidence: 0.8 });
+      expect(parseStructuredReview({ suggestions: [] }, options).summary).toBe('Review completed');
+    });
+
+    it('should throw a bad-response error on unreadable output', () => {
+      expect(() => parseStructuredReview('not json', options)).toThrow(expect.objectContaining({ type: 'bad-response' }));
+      expect(() => parseStructuredReview(null, options)).toThrow('does not match the review schema');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  CheapestFirstStrategy,
+  createRoutingStrategy,
+  LeastRecentlyFailedStrategy,
+  parseProviderNumbers,
+  PriorityStrategy,
+  RoundRobinStrategy,
+  RoutingConfigError,
+  RoutingState,
+  WeightedStrategy
+} from '../../src/providers/RoutingStrategy';
+import { ProviderManager } from '../../src/providers/ProviderManager';
+import { IProvider } from '../../src/providers/IProvider';
+import { findModelPrice } from '../../src/providers/ModelPricing';
+
+jest.mock('@actions/core');
+
+describe('routing strategies', () => {
+  const provider = (name: string, model?: string, fail = false): IProvider & { getModelInfo?: () => { model: string; maxTokens: number } } => ({
+    name,
+    analyzeCode: jest.fn(async () => {
+      if (fail) throw new Error(`${name} API error`);
+      return { summary: `Review from ${name}`, suggestions: [], confidence: 0.8 };
+    }),
+    ...(model ? { getModelInfo: () => ({ model, maxTokens: 1000 }) } : {})
+  });
+
+  const names = (providers: IProvider[]) => providers.map(p => p.name);
+  const openai = provider('OpenAI', 'gpt-4');
+  const claude = provider('Claude', 'claude-3-sonnet-20240229');
+  const gemini = provider('Gemini', 'gemini-1.5-flash');
+  const all = [openai, claude, gemini];
+  const noState = new Map<string, RoutingState>();
+
+  it('should rotate the first provider with round-robin', () => {
+    const strategy = new RoundRobinStrategy();
+
+    expect(names(strategy.order(all))).toEqual(['OpenAI', 'Claude', 'Gemini']);
+    expect(names(strategy.order(all))).toEqual(['Claude', 'Gemini', 'OpenAI']);
+  });
+
+  it('should always start with the preferred provider with priority', () => {
+    const strategy = new PriorityStrategy();
+
+    expect(names(strategy.order([claude, openai]))).toEqual(['Claude', 'OpenAI']);
+    expect(names(strategy.order([claude, openai]))).toEqual(['Claude', 'OpenAI']);
+  });
+
+  it('should distribute chunks by weight', () => {
+    const strategy = new WeightedStrategy({ claude: 3, openai: 1 });
+    const firsts = Array.from({ length: 8 }, () => strategy.order([openai, claude])[0].name);
+
+    expect(firsts.filter(name => name === 'Claude')).toHaveLength(6);
+    expect(firsts.filter(name => name === 'OpenAI')).toHaveLength(2);
+    expect(strategy.describe(claude)).toEqual({ strategy: 'weighted', weight: 3 });
+  });
+
+  it('should try the cheapest provider first', () => {
+    const local = provider('Command');
+    const strategy = new CheapestFirstStrategy();
+
+    expect(names(strategy.order([openai, local, claude, gemini], 'x'.repeat(4000)))).toEqual(['Gemini', 'Claude', 'OpenAI', 'Command']);
+    // 1000 input tokens at $0.075/M plus 1000 output tokens at $0.3/M
+    expect(strategy.describe(gemini).estimatedCost).toBeCloseTo(0.000375);
+  });
+
+  it('should let configured costs override the price table', () => {
+    const strategy = new CheapestFirstStrategy({ command: 0, openai: 0.01 });
+
+    expect(names(strategy.order([claude, openai, provider('Command')], 'diff'))).toEqual(['Command', 'OpenAI', 'Claude']);
+  });
+
+  it('should try providers that failed longest ago first', () => {
+    const state = new Map<string, RoutingState>([
+      ['OpenAI', { lastFailure: new Date('2026-01-02') }],
+      ['Claude', { lastFailure: new Date('2026-01-01') }]
+    ]);
+
+    expect(names(new LeastRecentlyFailedStrategy().order(all, '', state))).toEqual(['Gemini', 'Claude', 'OpenAI']);
+    expect(names(new LeastRecentlyFailedStrategy().order(all, '', noState))).toEqual(['OpenAI', 'Claude', 'Gemini']);
+  });
+
+  it('should create strategies by name and reject unknown ones', () => {
+    expect(createRoutingStrategy('').name).toBe('round-robin');
+    expect(createRoutingStrategy('Priority').name).toBe('priority');
+    expect(() => createRoutingStrategy('random')).toThrow(RoutingConfigError);
+    expect(parseProviderNumbers(['claude=3', 'OpenAI = 1.5'], 'routing-weights')).toEqual({ claude: 3, openai: 1.5 });
+    expect(() => parseProviderNumbers(['claude'], 'routing-weights')).toThrow('Invalid routing-weights entry "claude"');
+  });
+
+  it('should resolve dated model snapshots to their price family', () => {
+    expect(findModelPrice('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(findModelPrice('gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(findModelPrice('llama3')).toBeUndefined();
+  });
+
+  describe('ProviderManager routing', () => {
+    const context = { prNumber: 1, repository: 'test/repo', branch: 'main', files: [] };
+
+    it('should keep the preferred provider first and fail over to backups', async () => {
+      const manager = new ProviderManager([provider('Claude', undefined, true), provider('OpenAI')], false, {
+        routing: new PriorityStrategy()
+      });
+
+      expect((await manager.analyzeCode('diff', context)).summary).toBe('Review from OpenAI');
+      expect((await manager.analyzeCode('diff', context)).summary).toBe('Review from OpenAI');
+      expect(manager.getUsageStats()).toEqual({ Claude: 2, OpenAI: 2 });
+    });
+
+    it('should report the strategy and last failure in detailed stats', async () => {
+      const manager = new ProviderManager([provider('Claude', undefined, true), provider('OpenAI')], false, {
+        routing: new WeightedStrategy({ claude: 2 })
+      });
+
+      await manager.analyzeCode('diff', context);
+      const [claudeStats, openaiStats] = manager.getDetailedStats();
+
+      expect(manager.getRoutingStrategy()).toBe('weighted');
+      expect(claudeStats.routing).toEqual({ strategy: 'weighted', weight: 2 });
+      expect(claudeStats.lastFailure).toBeInstanceOf(Date);
+      expect(openaiStats).toMatchObject({ successCount: 1, routing: { strategy: 'weighted', weight: 1 } });
+    });
+  });
+});
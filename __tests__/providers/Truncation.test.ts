@@ -0,0 +1,144 @@
+import * as core from '@actions/core';
+import { combineSplitResults, mergeContinuation, readTruncationAction } from '../../src/providers/Truncation';
+import { parseReviewResponse, parseStructuredReview, recoverPartialReview } from '../../src/providers/responseParser';
+import { ProviderManager } from '../../src/providers/ProviderManager';
+import { ReviewResult } from '../../src/providers/IProvider';
+import { ActionInputs } from '../../src/config/ActionInputs';
+
+jest.mock('@actions/core');
+
+describe('Truncation', () => {
+  const finding = (file: string, line: number) => ({ file, line, severity: 'medium' as const, message: `Issue in ${file}` });
+  const cutOff = '{"summary": "Two issues", "suggestions": [' +
+    '{"file": "a.ts", "line": 1, "severity": "high", "message": "Uses \\"eval\\" {unsafe}"}, ' +
+    '{"file": "b.ts", "line": 2, "severity": "low", "mess';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recoverPartialReview', () => {
+    it('should keep the suggestions completed before the cut', () => {
+      expect(recoverPartialReview(cutOff)).toEqual({
+        summary: 'Two issues',
+        suggestions: [{ file: 'a.ts', line: 1, severity: 'high', message: 'Uses "eval" {unsafe}' }]
+      });
+    });
+
+    it('should return undefined without a suggestions array', () => {
+      expect(recoverPartialReview('{"summary": "cut')).toBeUndefined();
+    });
+
+    it('should mark prompt-parsed reviews recovered from partial JSON as truncated', () => {
+      const result = parseReviewResponse(cutOff, { defaultSummary: 'Review completed', confidence: 0.8, fallbackConfidence: 0.5, truncated: true });
+
+      expect(result).toMatchObject({ summary: 'Two issues', confidence: 0.8, truncated: true });
+      expect(result.suggestions).toHaveLength(1);
+    });
+
+    it('should not treat a complete but malformed answer as cut off', () => {
+      const malformed = '{"summary": "x", "suggestions": [{"file": "a.ts", "line": 1, "message": "m"},]}';
+
+      const result = parseReviewResponse(malformed, { defaultSummary: 'Review completed', confidence: 0.8, fallbackConfidence: 0.5 });
+
+      expect(result).toMatchObject({ summary: malformed, suggestions: [], confidence: 0.5 });
+      expect(result.parseError).toBeDefined();
+      expect(result.truncated).toBeUndefined();
+    });
+
+    it('should reject malformed structured output that was not cut off', () => {
+      expect(() => parseStructuredReview('{"summary":"x","suggestions":[ not json ]}', {
+        provider: 'OpenAI', defaultSummary: 'Review completed', confidence: 0.8
+      })).toThrow('OpenAI API error: Invalid response: structured output is not valid JSON');
+    });
+  });
+
+  describe('merging', () => {
+    it('should add continuation findings without repeats', () => {
+      const previous: ReviewResult = { summary: 'first', suggestions: [finding('a.ts', 1)], confidence: 0.8, truncated: true, usage: { inputTokens: 10, outputTokens: 5 } };
+      const next: ReviewResult = { summary: 'more', suggestions: [finding('a.ts', 1), finding('b.ts', 2)], confidence: 0.8, usage: { inputTokens: 12, outputTokens: 3 } };
+
+      expect(mergeContinuation(previous, next)).toMatchObject({
+        summary: 'first',
+        suggestions: [finding('a.ts', 1), finding('b.ts', 2)],
+        usage: { inputTokens: 22, outputTokens: 8 },
+        truncated: undefined
+      });
+    });
+
+    it('should combine split parts and count the cut-off call', () => {
+      const original: ReviewResult = { summary: 'cut', suggestions: [finding('a.ts', 1)], confidence: 0.8, truncated: true, usage: { inputTokens: 100, outputTokens: 50 } };
+      const parts: ReviewResult[] = [
+        { summary: 'part 1', suggestions: [finding('a.ts', 1)], confidence: 0.8, usage: { inputTokens: 60, outputTokens: 20 } },
+        { summary: 'part 2', suggestions: [finding('b.ts', 4)], confidence: 0.6, usage: { inputTokens: 60, outputTokens: 20 } }
+      ];
+
+      expect(combineSplitResults(parts, original)).toMatchObject({
+        summary: 'part 1\n\npart 2',
+        suggestions: [finding('a.ts', 1), finding('b.ts', 4)],
+        confidence: 0.6,
+        usage: { inputTokens: 220, outputTokens: 90 },
+        truncated: false
+      });
+    });
+  });
+
+  it('should read the action from inputs', () => {
+    (core.getInput as jest.Mock).mockReturnValue('');
+
+    expect(readTruncationAction(new ActionInputs({}))).toBe('none');
+    expect(readTruncationAction(new ActionInputs({ 'truncation-action': 'Split' }))).toBe('split');
+    expect(() => readTruncationAction(new ActionInputs({ 'truncation-action': 'retry' }))).toThrow('Invalid truncation-action: retry');
+  });
+
+  describe('ProviderManager truncation actions', () => {
+    const context = { prNumber: 1, repository: 'a/b', branch: 'main', files: ['a.ts', 'b.ts'] };
+    const diff = 'diff --git a/a.ts b/a.ts\n@@ -1 +1 @@\n+const a = 1;\ndiff --git a/b.ts b/b.ts\n@@ -1 +1 @@\n+const b = 2;';
+
+    beforeEach(() => {
+      (core.getInput as jest.Mock).mockReturnValue('');
+    });
+
+    it('should keep the recovered suggestions with none', async () => {
+      const analyzeCode = jest.fn().mockResolvedValue({ summary: 'cut', suggestions: [finding('a.ts', 1)], confidence: 0.8, truncated: true });
+      const manager = new ProviderManager([{ name: 'OpenAI', analyzeCode }]);
+
+      const result = await manager.analyzeCode(diff, context);
+
+      expect(analyzeCode).toHaveBeenCalledTimes(1);
+      expect(result.suggestions).toEqual([finding('a.ts', 1)]);
+      expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('OpenAI response was cut off at its max-tokens limit; recovered 1 complete suggestion(s)'));
+    });
+
+    it('should ask for the remaining findings with continue', async () => {
+      const analyzeCode = jest.fn()
+        .mockResolvedValueOnce({ summary: 'cut', suggestions: [finding('a.ts', 1)], confidence: 0.8, truncated: true })
+        .mockResolvedValueOnce({ summary: 'rest', suggestions: [finding('b.ts', 1)], confidence: 0.8 });
+      const manager = new ProviderManager([{ name: 'OpenAI', analyzeCode }], false, { truncation: 'continue' });
+
+      const result = await manager.analyzeCode(diff, context);
+
+      expect(analyzeCode).toHaveBeenCalledTimes(2);
+      expect(analyzeCode.mock.calls[1][1].continuation).toEqual({ reported: [finding('a.ts', 1)] });
+      expect(result.suggestions).toEqual([finding('a.ts', 1), finding('b.ts', 1)]);
+    });
+
+    it('should review each half of the chunk with split', async () => {
+      const analyzeCode = jest.fn()
+        .mockResolvedValueOnce({ summary: 'cut', suggestions: [], confidence: 0.8, truncated: true })
+        .mockImplementation(async (part: string) => ({
+          summary: `reviewed ${part.length} characters`,
+          suggestions: [part.includes('const a') ? finding('a.ts', 1) : finding('b.ts', 1)],
+          confidence: 0.8
+        }));
+      const manager = new ProviderManager([{ name: 'OpenAI', analyzeCode }], false, { truncation: 'split' });
+
+      const result = await manager.analyzeCode(diff, context);
+
+      expect(analyzeCode).toHaveBeenCalledTimes(3);
+      expect(analyzeCode.mock.calls[1][0].length + analyzeCode.mock.calls[2][0].length).toBeLessThan(diff.length);
+      expect(result.suggestions).toEqual([finding('a.ts', 1), finding('b.ts', 1)]);
+      expect(result.summary.split('\n\n')).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { UsageTracker, formatCost } from '../../src/providers/UsageTracker';
+import { MODEL_PRICES, parseModelPrices } from '../../src/providers/ModelPricing';
+import { ProviderManager } from '../../src/providers/ProviderManager';
+import { IProvider, TokenUsage } from '../../src/providers/IProvider';
+
+jest.mock('@actions/core');
+
+describe('UsageTracker', () => {
+  it('should price usage by model and total it per provider', () => {
+    const tracker = new UsageTracker();
+
+    // 1M input tokens at $2.5 and 100k output tokens at $10 per million
+    expect(tracker.record('OpenAI', 'gpt-4o-2024-08-06', { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(3.5);
+    expect(tracker.record('OpenAI-Compatible', 'llama3', { inputTokens: 500, outputTokens: 50 })).toBeUndefined();
+
+    expect(tracker.getProviderTotals()['OpenAI']).toEqual({ inputTokens: 1_000_000, outputTokens: 100_000, cost: 3.5, responses: 1, unpricedResponses: 0 });
+    expect(tracker.getTotals()).toEqual({ inputTokens: 1_000_500, outputTokens: 100_050, cost: 3.5, responses: 2, unpricedResponses: 1 });
+  });
+
+  it('should use configured prices', () => {
+    const tracker = new UsageTracker({ ...MODEL_PRICES, ...parseModelPrices(['llama3=1/2']) });
+
+    expect(tracker.record('OpenAI-Compatible', 'llama3:8b', { inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBe(3);
+  });
+
+  it('should parse price entries and reject malformed ones', () => {
+    expect(parseModelPrices(['GPT-4o = 2.5/10'])).toEqual({ 'gpt-4o': { input: 2.5, output: 10 } });
+    expect(() => parseModelPrices(['gpt-4o=2.5'])).toThrow('Invalid model-prices entry "gpt-4o=2.5"');
+  });
+
+  it('should format costs with four decimals', () => {
+    expect(formatCost(0.012345)).toBe('$0.0123');
+  });
+
+  describe('ProviderManager usage', () => {
+    const context = { prNumber: 1, repository: 'a/b', branch: 'main', files: [] };
+    const reporting = (name: string, model: string, usage: TokenUsage): IProvider & { getModelInfo: () => { model: string; maxTokens: number } } => ({
+      name,
+      analyzeCode: jest.fn().mockResolvedValue({ summary: name, suggestions: [], confidence: 0.8, usage }),
+      getModelInfo: () => ({ model, maxTokens: 1000 })
+    });
+
+    it('should add the cost to the chunk result and the provider stats', async () => {
+      const usage = new UsageTracker();
+      const manager = new ProviderManager([reporting('Claude', 'claude-3-haiku-20240307', { inputTokens: 4000, outputTokens: 1000 })], false, { usage });
+
+      const result = await manager.analyzeCode('diff', context);
+
+      // 4000 * $0.25/M + 1000 * $1.25/M
+      expect(result.usage?.cost).toBeCloseTo(0.00225);
+      expect(manager.getDetailedStats()[0]).toMatchObject({ inputTokens: 4000, outputTokens: 1000 });
+      expect(manager.getDetailedStats()[0].cost).toBeCloseTo(0.00225);
+      expect(usage.getTotals().responses).toBe(1);
+    });
+
+    it('should sum the usage of ensemble members for the chunk', async () => {
+      const manager = new ProviderManager([
+        reporting('OpenAI', 'gpt-4o-mini', { inputTokens: 1000, outputTokens: 100 }),
+        reporting('Local', 'llama3', { inputTokens: 800, outputTokens: 80 })
+      ], false, { ensemble: {} });
+
+      const result = await manager.analyzeCode('diff', context);
+
+      expect(result.usage).toMatchObject({ inputTokens: 1800, outputTokens: 180 });
+      expect(result.usage?.cost).toBeCloseTo((1000 * 0.15 + 100 * 0.6) / 1_000_000);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  AzureContentFilterError,
+  AzureOpenAIProvider,
+  DEFAULT_AZURE_API_VERSION,
+  parseDeploymentMap
+} from '../../../src/providers/azure/AzureOpenAIProvider';
+import { AzureOpenAI } from 'openai';
+import { RateLimitError } from '../../../src/providers/ProviderError';
+import { RetryBudget, withRetry } from '../../../src/providers/RetryPolicy';
+
+jest.mock('openai');
+jest.mock('@actions/core');
+const MockedAzureOpenAI = AzureOpenAI as jest.MockedClass<typeof AzureOpenAI>;
+
+describe('AzureOpenAIProvider', () => {
+  const context = { prNumber: 1, repository: 'owner/repo', branch: 'main', files: ['src/app.ts'] };
+  const endpoint = 'https://contoso.openai.azure.com';
+  let createByKey: Record<string, jest.Mock>;
+
+  const completion = (content: string, finishReason = 'stop') => ({
+    choices: [{ finish_reason: finishReason, message: { content } }]
+  });
+
+  const rateLimited = (headers: Record<string, string>) =>
+    Object.assign(new Error('429 Too Many Requests'), { status: 429, headers: new Headers(headers) });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    createByKey = {};
+    MockedAzureOpenAI.mockImplementation(((options: { apiKey: string }) => {
+      createByKey[options.apiKey] = createByKey[options.apiKey] || jest.fn();
+      return {
+        chat: { completions: { create: createByKey[options.apiKey] } },
+        models: { list: jest.fn().mockResolvedValue({ data: [] }) }
+      };
+    }) as unknown as () => AzureOpenAI);
+  });
+
+  it('should call the mapped deployment with the configured api-version', async () => {
+    const provider = new AzureOpenAIProvider({
+      apiKeys: ['azure-key'],
+      endpoint,
+      model: 'gpt-4o',
+      deployments: { 'gpt-4o': 'review-gpt4o-prod' }
+    });
+    createByKey['azure-key'].mockResolvedValue(completion('{"summary":"Fine","suggestions":[]}'));
+
+    const result = await provider.analyzeCode('diff', context);
+
+    expect(result.summary).toBe('Fine');
+    expect(MockedAzureOpenAI).toHaveBeenCalledWith(expect.objectContaining({
+      apiKey: 'azure-key',
+      endpoint,
+      apiVersion: DEFAULT_AZURE_API_VERSION,
+      maxRetries: 0
+    }));
+    expect(createByKey['azure-key']).toHaveBeenCalledWith(expect.objectContaining({ model: 'review-gpt4o-prod' }));
+    expect(provider.getModelInfo().model).toBe('gpt-4o');
+  });
+
+  it('should fall back to a deployment named after the model', () => {
+    const provider = new AzureOpenAIProvider({ apiKeys: ['k'], endpoint, model: 'gpt-4o-mini' });
+
+    expect(provider.getDeployment()).toBe('gpt-4o-mini');
+  });
+
+  it('should put a rate-limited key on cooldown and leave the retry to the retry policy', async () => {
+    const provider = new AzureOpenAIProvider({ apiKeys: ['only-key'], endpoint });
+    createByKey['only-key'].mockRejectedValue(rateLimited({ 'retry-after': '30' }));
+
+    const error = await provider.analyzeCode('diff', context).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(30000);
+    expect(createByKey['only-key']).toHaveBeenCalledTimes(1);
+    expect(provider.getKeyStats()[0].cooldownUntil).toBeDefined();
+  });
+
+  it('should make one upstream call per retry attempt', async () => {
+    const options = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, budget: 5 };
+    const sleep = jest.fn().mockResolvedValue(undefined);
+    const single = new AzureOpenAIProvider({ apiKeys: ['only-key'], endpoint });
+    createByKey['only-key'].mockRejectedValue(rateLimited({ 'retry-after-ms': '5' }));
+
+    await expect(withRetry(() => single.analyzeCode('diff', context), { label: 'Azure OpenAI', options, budget: new RetryBudget(5), sleep }))
+      .rejects.toThrow('Azure OpenAI API error: Rate limited (HTTP 429)');
+    expect(createByKey['only-key']).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[5], [5]]);
+
+    const rotating = new AzureOpenAIProvider({ apiKeys: ['key-a', 'key-b'], endpoint });
+    createByKey['key-a'].mockRejectedValue(rateLimited({ 'retry-after-ms': '5' }));
+    createByKey['key-b'].mockResolvedValue(completion('{"summary":"Second key","suggestions":[]}'));
+
+    const result = await withRetry(() => rotating.analyzeCode('diff', context), { label: 'Azure OpenAI', options, budget: new RetryBudget(5), sleep });
+
+    expect(result.summary).toBe('Second key');
+    expect(createByKey['key-a']).toHaveBeenCalledTimes(1);
+    expect(createByKey['key-b']).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report content filter results for prompts and responses', async () => {
+    const provider = new AzureOpenAIProvider({ apiKeys: ['k'], endpoint });
+    createByKey['k'].mockRejectedValueOnce(Object.assign(new Error('400'), {
+      status: 400,
+      code: 'content_filter',
+      error: {
+        code: 'content_filter',
+        innererror: { content_filter_result: { hate: { filtered: false }, violence: { filtered: true } } }
+      }
+    }));
+
+    const promptError = await provider.analyzeCode('diff', context).catch(error => error);
+    expect(promptError).toBeInstanceOf(AzureContentFilterError);
+    expect(promptError.message).toBe('Azure OpenAI content filter blocked the prompt (violence)');
+    expect(promptError.categories).toEqual(['violence']);
+
+    createByKey['k'].mockResolvedValueOnce(completion('', 'content_filter'));
+    await expect(provider.analyzeCode('diff', context)).rejects.toThrow('content filter blocked the response');
+  });
+
+  it('should classify and redact other API errors', async () => {
+    const provider = new AzureOpenAIProvider({ apiKeys: ['k'], endpoint });
+    createByKey['k'].mockRejectedValue(Object.assign(new Error('401 key sk-abcdef1234567890 is invalid'), { status: 401 }));
+
+    await expect(provider.analyzeCode('diff', context)).rejects.toThrow('Azure OpenAI API error: Authentication failed (HTTP 401): 401 key [REDACTED] is invalid');
+  });
+
+  it('should validate the endpoint and deployment mapping', () => {
+    expect(() => new AzureOpenAIProvider({ apiKeys: ['k'], endpoint: '' })).toThrow('endpoint must be an https URL');
+    expect(parseDeploymentMap(['gpt-4o = prod-4o', 'gpt-4o-mini=mini'])).toEqual({ 'gpt-4o': 'prod-4o', 'gpt-4o-mini': 'mini' });
+    expect(() => parseDeploymentMap(['gpt-4o'])).toThrow('expected "model=deployment"');
+  });
+});
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RecordingProvider } from '../../../src/providers/cassette/RecordingProvider';
+import { ReplayProvider } from '../../../src/providers/cassette/ReplayProvider';
+import { CassetteError, loadCassette, promptHash } from '../../../src/providers/cassette/Cassette';
+import { PromptBuilder } from '../../../src/prompts/PromptBuilder';
+import { IProvider, ReviewContext, ReviewResult } from '../../../src/providers/IProvider';
+
+describe('cassettes', () => {
+  let workspace: string;
+  let cassettePath: string;
+  const promptBuilder = new PromptBuilder();
+  const context: ReviewContext = { prNumber: 12, repository: 'owner/repo', branch: 'main', files: ['src/app.ts'] };
+
+  const response: ReviewResult = {
+    summary: 'Recorded review',
+    suggestions: [{ file: 'src/app.ts', line: 4, severity: 'high', message: 'SQL injection' }],
+    confidence: 0.85
+  };
+
+  const liveProvider = (name: string, result: ReviewResult = response): IProvider & { analyzeCode: jest.Mock } => ({
+    name,
+    analyzeCode: jest.fn().mockResolvedValue(result)
+  });
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'code-review-cassette-'));
+    cassettePath = path.join(workspace, 'fixtures/review.cassette.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should record responses keyed by the prompt hash', async () => {
+    const live = liveProvider('OpenAI');
+    const recorder = new RecordingProvider(live, 'openai', promptBuilder, cassettePath);
+
+    expect(await recorder.analyzeCode('+query(input)', context)).toEqual(response);
+
+    const cassette = loadCassette(cassettePath);
+    const key = promptHash(promptBuilder.build('openai', '+query(input)', context));
+    expect(recorder.name).toBe('OpenAI');
+    expect(cassette.entries[key]).toMatchObject({ provider: 'openai', providerName: 'OpenAI', promptVersion: 'v1', response });
+  });
+
+  it('should not record failed calls', async () => {
+    const live = liveProvider('Claude');
+    live.analyzeCode.mockRejectedValue(new Error('Claude API error'));
+    const recorder = new RecordingProvider(live, 'claude', promptBuilder, cassettePath);
+
+    await expect(recorder.analyzeCode('diff', context)).rejects.toThrow('Claude API error');
+    expect(fs.existsSync(cassettePath)).toBe(false);
+  });
+
+  it('should replay recordings from any provider without calling a model', async () => {
+    await new RecordingProvider(liveProvider('OpenAI'), 'openai', promptBuilder, cassettePath).analyzeCode('first', context);
+    const claudeResponse = { ...response, summary: 'Claude review' };
+    await new RecordingProvider(liveProvider('Claude', claudeResponse), 'claude', promptBuilder, cassettePath)
+      .analyzeCode('second', context);
+
+    const replay = new ReplayProvider(cassettePath, promptBuilder);
+
+    expect(replay.getRecordingCount()).toBe(2);
+    expect(await replay.analyzeCode('first', context)).toEqual(response);
+    expect(await replay.analyzeCode('second', context)).toEqual(claudeResponse);
+  });
+
+  it('should fail when the prompt has no recording', async () => {
+    await new RecordingProvider(liveProvider('OpenAI'), 'openai', promptBuilder, cassettePath).analyzeCode('diff', context);
+    const replay = new ReplayProvider(cassettePath, promptBuilder);
+
+    await expect(replay.analyzeCode('diff', { ...context, customInstructions: 'Be strict' }))
+      .rejects.toThrow('No recorded response for this prompt');
+  });
+
+  it('should reject unreadable cassettes', () => {
+    fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+    fs.writeFileSync(cassettePath, '{"entries": {}}');
+
+    expect(() => new ReplayProvider(cassettePath)).toThrow(CassetteError);
+    expect(() => new ReplayProvider(path.join(workspace, 'missing.json'))).toThrow('Failed to read cassette');
+  });
+});
@@ -24,6 +24,12 @@ describe('ClaudeProvider', () => {
     MockedAnthropic.mockImplementation(() => mockClient);
   });
 
+  it('should leave retries to the retry policy', () => {
+    new ClaudeProvider({ apiKeys: ['sk-ant-test'] });
+
+    expect(MockedAnthropic).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'sk-ant-test', maxRetries: 0 }));
+  });
+
   it('should analyze code and return review results', async () => {
     mockMessagesCreate.mockResolvedValue({
       content: [{
@@ -57,11 +63,90 @@ describe('ClaudeProvider', () => {
     expect(mockMessagesCreate).toHaveBeenCalledWith({
       model: 'claude-3-sonnet-20240229',
       max_tokens: 1000,
+      temperature: 0.3,
+      system: expect.stringContaining('Reply with the JSON object only'),
       messages: [{
         role: 'user',
         content: expect.stringContaining('test diff')
-      }]
+      }],
+      tools: [expect.objectContaining({ name: 'submit_review', input_schema: expect.objectContaining({ required: ['summary', 'suggestions'] }) })],
+      tool_choice: { type: 'tool', name: 'submit_review' }
+    });
+  });
+
+  it('should read the review from the submit_review tool call', async () => {
+    mockMessagesCreate.mockResolvedValue({
+      content: [{
+        type: 'tool_use',
+        id: 'toolu_1',
+        name: 'submit_review',
+        input: {
+          summary: 'Structured review',
+          suggestions: [{ file: 'app.py', line: 3, severity: 'low', message: 'Unused import', suggestion: '' }]
+        }
+      }],
+      stop_reason: 'tool_use'
+    });
+
+    const provider = new ClaudeProvider({ apiKeys: ['test-api-key'] });
+    const result = await provider.analyzeCode('test diff', {
+      prNumber: 456,
+      repository: 'test/repo',
+      branch: 'develop',
+      files: ['app.py']
+    });
+
+    expect(result).toMatchObject({ summary: 'Structured review', confidence: 0.85 });
+    expect(result.suggestions).toEqual([{ file: 'app.py', line: 3, severity: 'low', message: 'Unused import', suggestion: '' }]);
+  });
+
+  it('should flag a review cut off by the max_tokens stop reason', async () => {
+    mockMessagesCreate.mockResolvedValue({
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'submit_review', input: { summary: 'Partial' } }],
+      stop_reason: 'max_tokens'
+    });
+
+    const provider = new ClaudeProvider({ apiKeys: ['test-api-key'] });
+    const result = await provider.analyzeCode('test diff', {
+      prNumber: 456,
+      repository: 'test/repo',
+      branch: 'develop',
+      files: ['app.py']
+    });
+
+    expect(result).toMatchObject({ summary: 'Partial', suggestions: [], truncated: true });
+  });
+
+  it('should reject a tool call that does not match the schema', async () => {
+    mockMessagesCreate.mockResolvedValue({
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'submit_review', input: { summary: 'x', suggestions: 'none' } }]
+    });
+
+    const provider = new ClaudeProvider({ apiKeys: ['test-api-key'] });
+
+    await expect(provider.analyzeCode('test diff', {
+      prNumber: 456,
+      repository: 'test/repo',
+      branch: 'develop',
+      files: ['app.py']
+    })).rejects.toThrow('Claude API error: Invalid response: structured output does not match the review schema');
+  });
+
+  it('should report token usage from the response', async () => {
+    mockMessagesCreate.mockResolvedValue({
+      content: [{ type: 'text', text: JSON.stringify({ summary: 'Done', suggestions: [] }) }],
+      usage: { input_tokens: 1200, output_tokens: 300 }
     });
+
+    const provider = new ClaudeProvider({ apiKeys: ['test-api-key'] });
+    const result = await provider.analyzeCode('test diff', {
+      prNumber: 456,
+      repository: 'test/repo',
+      branch: 'develop',
+      files: ['app.py']
+    });
+
+    expect(result.usage).toEqual({ inputTokens: 1200, outputTokens: 300 });
   });
 
   it('should handle API errors gracefully', async () => {
@@ -0,0 +1,68 @@
+import { CommandProvider, CommandProviderError, parseCommandOutput } from '../../../src/providers/command/CommandProvider';
+import { ProviderConfigError } from '../../../src/providers/BaseProvider';
+
+jest.mock('@actions/core');
+
+describe('CommandProvider', () => {
+  const context = { prNumber: 3, repository: 'owner/repo', branch: 'main', files: ['src/app.ts'] };
+
+  // Runs a Node script as the "local tool" so the tests do not depend on shell utilities
+  const nodeScript = (script: string, options: { timeout?: number; inputFormat?: 'text' | 'json' } = {}) =>
+    new CommandProvider({ command: process.execPath, args: ['-e', script], ...options });
+
+  const echoStdin = `
+    let input = '';
+    process.stdin.on('data', d => input += d);
+    process.stdin.on('end', () => console.log(JSON.stringify({ summary: input, suggestions: [], confidence: 0.9 })));
+  `;
+
+  it('should send the rendered prompt on stdin and read the result from stdout', async () => {
+    const result = await nodeScript(echoStdin).analyzeCode('+const answer = 42;', context);
+
+    expect(result.summary).toContain('+const answer = 42;');
+    expect(result.summary).toContain('owner/repo');
+    expect(result.confidence).toBe(0.9);
+  });
+
+  it('should send a JSON payload when configured', async () => {
+    const result = await nodeScript(echoStdin, { inputFormat: 'json' }).analyzeCode('diff-body', context);
+    const payload = JSON.parse(result.summary);
+
+    expect(payload.diff).toBe('diff-body');
+    expect(payload.context.prNumber).toBe(3);
+    expect(payload.user).toContain('diff-body');
+  });
+
+  it('should treat a non-zero exit as failure', async () => {
+    const provider = nodeScript(`console.error('model not loaded'); process.exit(3);`);
+
+    await expect(provider.analyzeCode('diff', context)).rejects.toThrow('Command exited with code 3');
+  });
+
+  it('should kill the command when it times out', async () => {
+    const provider = nodeScript('setTimeout(() => {}, 10000);', { timeout: 200 });
+
+    await expect(provider.analyzeCode('diff', context)).rejects.toThrow('Command timed out after 200ms');
+  });
+
+  it('should report commands that cannot be started', async () => {
+    const provider = new CommandProvider({ command: 'definitely-not-a-review-tool' });
+
+    await expect(provider.analyzeCode('diff', context)).rejects.toThrow(CommandProviderError);
+  });
+
+  it('should require a command', () => {
+    expect(() => new CommandProvider({ command: ' ' })).toThrow(ProviderConfigError);
+  });
+
+  describe('parseCommandOutput', () => {
+    it('should default the confidence', () => {
+      expect(parseCommandOutput('{"summary":"ok","suggestions":[]}\n').confidence).toBe(0.7);
+    });
+
+    it('should reject output that is not a review result', () => {
+      expect(() => parseCommandOutput('Looks good to me')).toThrow('not valid JSON');
+      expect(() => parseCommandOutput('{"summary":"ok"}')).toThrow('"summary" and "suggestions"');
+    });
+  });
+});
@@ -187,4 +187,50 @@ describe('GeminiProvider', () => {
       apiKeys: []
     })).toThrow('At least one API key is required');
   });
+
+  it('should constrain Gemini 1.5 and later to the review schema', async () => {
+    mockGenerateContent.mockResolvedValue({
+      response: { text: () => JSON.stringify({ summary: 'Schema review', suggestions: [] }) }
+    });
+
+    const provider = new GeminiProvider({ apiKeys: ['test-api-key'], model: 'gemini-1.5-flash' });
+    const result = await provider.analyzeCode('test diff', {
+      prNumber: 123,
+      repository: 'test/repo',
+      branch: 'main',
+      files: ['test.js']
+    });
+
+    const generationConfig = (mockGetGenerativeModel.mock.calls[0] as unknown[])[0] as { generationConfig: Record<string, unknown> };
+    expect(generationConfig.generationConfig).toMatchObject({
+      responseMimeType: 'application/json',
+      responseSchema: { type: 'object', required: ['summary', 'suggestions'] }
+    });
+    expect(result).toMatchObject({ summary: 'Schema review', confidence: 0.82 });
+  });
+
+  it('should flag a response stopped by the MAX_TOKENS finish reason', async () => {
+    mockGenerateContent.mockResolvedValue({
+      response: {
+        text: () => '{"summary": "Long", "suggestions": [{"file": "a.go", "line": 4, "severity": "high", "message": "Leak"}, {"fi',
+        candidates: [{ finishReason: 'MAX_TOKENS' }]
+      }
+    });
+
+    const provider = new GeminiProvider({ apiKeys: ['test-api-key'], model: 'gemini-1.5-pro' });
+    const result = await provider.analyzeCode('test diff', { prNumber: 1, repository: 'test/repo', branch: 'main', files: [] });
+
+    expect(result).toMatchObject({ summary: 'Long', truncated: true });
+    expect(result.suggestions).toHaveLength(1);
+  });
+
+  it('should not send a response schema to gemini-pro', async () => {
+    mockGenerateContent.mockResolvedValue({ response: { text: () => '{"summary": "ok", "suggestions": []}' } });
+
+    const provider = new GeminiProvider({ apiKeys: ['test-api-key'] });
+    await provider.analyzeCode('test diff', { prNumber: 1, repository: 'test/repo', branch: 'main', files: [] });
+
+    const generationConfig = (mockGetGenerativeModel.mock.calls[0] as unknown[])[0] as { generationConfig: Record<string, unknown> };
+    expect(generationConfig.generationConfig).not.toHaveProperty('responseSchema');
+  });
 });
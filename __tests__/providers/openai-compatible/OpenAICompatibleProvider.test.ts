@@ -0,0 +1,106 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider, parseHeaderLines } from '../../../src/providers/openai-compatible/OpenAICompatibleProvider';
+import { ProviderConfigError } from '../../../src/providers/BaseProvider';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let reply: { status: number; body: unknown };
+
+  const context = { prNumber: 7, repository: 'owner/repo', branch: 'main', files: ['src/app.ts'] };
+
+  beforeEach(async () => {
+    requests = [];
+    reply = { status: 200, body: {} };
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const completion = (content: string) => ({ choices: [{ message: { role: 'assistant', content } }] });
+
+  it('should post a chat completion and parse the review', async () => {
+    reply.body = completion('```json\n{"summary":"Looks fine","suggestions":[{"file":"src/app.ts","line":3,"severity":"low","message":"Rename"}]}\n```');
+    const provider = new OpenAICompatibleProvider({
+      apiKeys: [],
+      baseUrl,
+      model: 'qwen2.5-coder',
+      headers: { 'X-Team': 'platform' },
+      temperature: 0
+    });
+
+    const result = await provider.analyzeCode('+const a = 1;', context);
+
+    expect(result.summary).toBe('Looks fine');
+    expect(result.suggestions).toHaveLength(1);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers['x-team']).toBe('platform');
+    expect(requests[0].headers.authorization).toBeUndefined();
+
+    const payload = JSON.parse(requests[0].body);
+    expect(payload.model).toBe('qwen2.5-coder');
+    expect(payload.temperature).toBe(0);
+    expect(payload.messages.map((m: { role: string }) => m.role)).toEqual(['system', 'user']);
+    expect(payload.messages[1].content).toContain('+const a = 1;');
+  });
+
+  it('should rotate bearer keys between requests', async () => {
+    reply.body = completion('{"summary":"ok","suggestions":[]}');
+    const provider = new OpenAICompatibleProvider({ apiKeys: ['key-a', 'key-b'], baseUrl, model: 'llama3' });
+
+    await provider.analyzeCode('diff', context);
+    await provider.analyzeCode('diff', context);
+
+    expect(requests.map(r => r.headers.authorization)).toEqual(['Bearer key-a', 'Bearer key-b']);
+  });
+
+  it('should fail on HTTP errors without leaking the response', async () => {
+    reply = { status: 500, body: { error: 'secret internals' } };
+    const provider = new OpenAICompatibleProvider({ apiKeys: [], baseUrl, model: 'llama3' });
+
+    await expect(provider.analyzeCode('diff', context)).rejects.toThrow('OpenAI-compatible API error: Server error (HTTP 500)');
+  });
+
+  it('should report health from the models endpoint', async () => {
+    reply.body = { data: [{ id: 'llama3' }] };
+    const provider = new OpenAICompatibleProvider({ apiKeys: [], baseUrl, model: 'llama3' });
+
+    expect(await provider.healthCheck()).toBe(true);
+    expect(requests[0].url).toBe('/v1/models');
+  });
+
+  it('should require a base URL and a model', () => {
+    expect(() => new OpenAICompatibleProvider({ apiKeys: [], baseUrl: '', model: 'llama3' }))
+      .toThrow('baseUrl is required');
+    expect(() => new OpenAICompatibleProvider({ apiKeys: [], baseUrl: 'http://localhost:11434/v1', model: '' }))
+      .toThrow('model is required');
+  });
+
+  it('should parse header lines', () => {
+    expect(parseHeaderLines(['X-Team: platform', 'X-Trace: a:b'])).toEqual({ 'X-Team': 'platform', 'X-Trace': 'a:b' });
+    expect(() => parseHeaderLines(['Bearer secret'])).toThrow(ProviderConfigError);
+  });
+});
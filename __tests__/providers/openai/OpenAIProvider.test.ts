@@ -10,6 +10,12 @@ describe('OpenAIProvider', () => {
     jest.clearAllMocks();
   });
 
+  it('should leave retries to the retry policy', () => {
+    new OpenAIProvider({ apiKeys: ['sk-test'] });
+
+    expect(MockedOpenAI).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'sk-test', maxRetries: 0 }));
+  });
+
   it('should analyze code and return review results', async () => {
     // Setup mock
     const mockCreate = jest.fn().mockResolvedValue({
@@ -223,6 +229,18 @@ describe('OpenAIProvider', () => {
     })).rejects.toThrow('OpenAI API error');
   });
 
+  it('should report the failure that disabled the last key', async () => {
+    const mockCreate = jest.fn().mockRejectedValue(Object.assign(new Error('Incorrect API key provided'), { status: 401 }));
+    MockedOpenAI.mockImplementation(() => ({ chat: { completions: { create: mockCreate } } } as any));
+    const provider = new OpenAIProvider({ apiKeys: ['sk-first-1111', 'sk-second-2222'] });
+    const context = { prNumber: 123, repository: 'test/repo', branch: 'main', files: ['test.js'] };
+
+    await expect(provider.analyzeCode('test diff', context)).rejects.toMatchObject({ status: 401 });
+    await expect(provider.analyzeCode('test diff', context)).rejects.toMatchObject({ status: 401 });
+    await expect(provider.analyzeCode('test diff', context)).rejects.toThrow('all 2 API key(s) were disabled');
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+  });
+
   it('should parse JSON response correctly', async () => {
     const mockCreate = jest.fn().mockResolvedValue({
       choices: [{
@@ -314,4 +332,96 @@ describe('OpenAIProvider', () => {
     expect(result.suggestions).toHaveLength(0);
     expect(result.confidence).toBe(0.5);
   });
+
+  it('should render focus areas and custom instructions into the prompt', async () => {
+    const mockCreate = jest.fn().mockResolvedValue({
+      choices: [{ message: { content: JSON.stringify({ summary: 'ok', suggestions: [] }) } }]
+    });
+
+    MockedOpenAI.mockImplementation(() => ({
+      chat: { completions: { create: mockCreate } },
+      models: { list: jest.fn() }
+    } as any));
+
+    const provider = new OpenAIProvider({ apiKeys: ['test-api-key'] });
+
+    await provider.analyzeCode('test diff', {
+      prNumber: 123,
+      repository: 'test/repo',
+      branch: 'main',
+      files: ['test.js'],
+      focusAreas: ['tests'],
+      customInstructions: 'Flag any TODO comments.'
+    });
+
+    const prompt = mockCreate.mock.calls[0][0].messages[1].content;
+    expect(prompt).toContain('Tests:');
+    expect(prompt).not.toContain('Security:');
+    expect(prompt).toContain('Flag any TODO comments.');
+  });
+
+  describe('structured output', () => {
+    const context = { prNumber: 123, repository: 'test/repo', branch: 'main', files: ['test.js'] };
+
+    const mockClient = (content: string) => {
+      const mockCreate = jest.fn().mockResolvedValue({ choices: [{ message: { content }, finish_reason: 'stop' }] });
+      MockedOpenAI.mockImplementation(() => ({
+        chat: { completions: { create: mockCreate } },
+        models: { list: jest.fn() }
+      } as any));
+      return mockCreate;
+    };
+
+    it('should request the review schema from models that support it', async () => {
+      const mockCreate = mockClient(JSON.stringify({
+        summary: 'Schema review',
+        suggestions: [{ file: 'test.js', line: 2, severity: 'medium', message: 'Use const', suggestion: 'const x = 1;' }]
+      }));
+
+      const provider = new OpenAIProvider({ apiKeys: ['test-api-key'], model: 'gpt-4o' });
+      const result = await provider.analyzeCode('test diff', context);
+
+      expect(mockCreate.mock.calls[0][0].response_format).toMatchObject({
+        type: 'json_schema',
+        json_schema: { name: 'review_result', strict: true }
+      });
+      expect(result).toMatchObject({ summary: 'Schema review', confidence: 0.8 });
+      expect(result.suggestions).toHaveLength(1);
+    });
+
+    it('should fail instead of returning no suggestions when structured output is not JSON', async () => {
+      mockClient('{"summary": "cut off');
+
+      const provider = new OpenAIProvider({ apiKeys: ['test-api-key'], model: 'gpt-4o-mini' });
+
+      await expect(provider.analyzeCode('test diff', context))
+        .rejects.toThrow('OpenAI API error: Invalid response: structured output is not valid JSON');
+    });
+
+    it('should recover complete suggestions when the answer hits max_tokens', async () => {
+      const mockCreate = jest.fn().mockResolvedValue({
+        choices: [{
+          message: { content: '{"summary": "s", "suggestions": [{"file": "a.js", "line": 1, "severity": "low", "message": "m", "suggestion": ""}, {"file": "b' },
+          finish_reason: 'length'
+        }]
+      });
+      MockedOpenAI.mockImplementation(() => ({ chat: { completions: { create: mockCreate } }, models: { list: jest.fn() } } as any));
+
+      const provider = new OpenAIProvider({ apiKeys: ['test-api-key'], model: 'gpt-4o' });
+      const result = await provider.analyzeCode('test diff', context);
+
+      expect(result).toMatchObject({ summary: 's', truncated: true });
+      expect(result.suggestions).toEqual([{ file: 'a.js', line: 1, severity: 'low', message: 'm', suggestion: '' }]);
+    });
+
+    it('should keep prompt-only JSON for older models', async () => {
+      const mockCreate = mockClient('no json here');
+
+      const provider = new OpenAIProvider({ apiKeys: ['test-api-key'], model: 'gpt-4-turbo' });
+      const result = await provider.analyzeCode('test diff', context);
+
+      expect(mockCreate.mock.calls[0][0]).not.toHaveProperty('response_format');
+      expect(result.summary).toBe('no json here');
+    });
+  });
 });
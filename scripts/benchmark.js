@@ -51,6 +51,25 @@ class Benchmark {
     return lines.join('\n');
   }
 
+  // A `git diff` of about `megabytes` MB: many files of several hunks each
+  generateGitDiff(megabytes, hunksPerFile = 8) {
+    const parts = [];
+    let size = 0;
+    for (let file = 0; size < megabytes * 1024 * 1024; file++) {
+      const path = `src/module${file}/file${file}.ts`;
+      parts.push(`diff --git a/${path} b/${path}`, `index 1234567..89abcde 100644`, `--- a/${path}`, `+++ b/${path}`);
+      for (let hunk = 0; hunk < hunksPerFile; hunk++) {
+        const start = hunk * 40 + 1;
+        parts.push(`@@ -${start},6 +${start},7 @@ function handler${hunk}() {`);
+        parts.push(`   const input${hunk} = read(${hunk});`, `   const value${hunk} = parse(input${hunk});`);
+        parts.push(`-  return value${hunk};`, `+  validate(value${hunk});`, `+  return normalize(value${hunk});`);
+        parts.push(`   // end of handler ${hunk}`, ` }`, ``);
+      }
+      size += parts.slice(-hunksPerFile * 9 - 4).reduce((sum, line) => sum + line.length + 1, 0);
+    }
+    return parts.join('\n');
+  }
+
   async runAllBenchmarks() {
     console.log('Starting performance benchmarks...\n');
 
@@ -81,8 +100,41 @@ class Benchmark {
       });
     }, 200);
 
-    
+    // Benchmark 4: Multi-megabyte diffs; time per MB should stay flat as the diff grows
+    const perMegabyte = [];
+    for (const megabytes of [1, 4, 16]) {
+      const diff = this.generateGitDiff(megabytes);
+      const result = await this.runBenchmark(`${megabytes} MB Git Diff`, async () => {
+        processor.chunkDiff(diff);
+      }, 5);
+      result.sized = true;
+      perMegabyte.push({ megabytes, time: result.avgTime / (diff.length / (1024 * 1024)) });
+    }
+
+    // Benchmark 5: One file too large for a chunk, split between its hunks, with large chunks
+    const bigFile = this.generateGitDiff(4, 20000);
+    const bigFileResult = await this.runBenchmark('4 MB Single File, 128k Token Chunks', async () => {
+      new DiffProcessor(128000).chunkDiff(bigFile);
+    }, 5);
+    bigFileResult.sized = true;
+
     this.printSummary();
+    this.printScaling(perMegabyte);
+  }
+
+  printScaling(perMegabyte) {
+    console.log('=== Scaling ===');
+    perMegabyte.forEach(({ megabytes, time }) => {
+      console.log(`${megabytes} MB: ${time.toFixed(2)}ms per MB`);
+    });
+
+    const smallest = perMegabyte[0].time;
+    const largest = perMegabyte[perMegabyte.length - 1].time;
+    if (largest > smallest * 2) {
+      console.log('⚠️  Time per MB grows with diff size; chunking is not linear');
+    } else {
+      console.log('✅ Chunking time grows linearly with diff size');
+    }
   }
 
   printSummary() {
@@ -95,8 +147,8 @@ class Benchmark {
       console.log('');
     });
 
-    // Performance recommendations
-    const slowestBenchmark = this.results.reduce((prev, current) =>
+    // Performance recommendations; multi-megabyte runs are judged by their scaling instead
+    const slowestBenchmark = this.results.filter(result => !result.sized).reduce((prev, current) =>
       prev.avgTime > current.avgTime ? prev : current
     );
 
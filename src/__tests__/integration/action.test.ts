@@ -48,7 +48,7 @@ describe('Action Integration Tests - Full Execution Flow', () => {
     mockSetOutput = core.setOutput as jest.MockedFunction<typeof core.setOutput>;
 
     // Setup default core mock implementations
-    mockGetInput.mockImplementation((_name) => 'test-token');
+    mockGetInput.mockImplementation((name) => name === 'github-token' ? 'test-token' : '');
     mockGetMultilineInput.mockReturnValue(['test-key']);
     mockInfo.mockImplementation(() => {});
     mockWarning.mockImplementation(() => {});
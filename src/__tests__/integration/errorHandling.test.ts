@@ -62,7 +62,7 @@ describe('Error Handling and Edge Cases', () => {
         case 'providers': return 'openai,claude,gemini';
         case 'chunk-size': return '2000';
         case 'github-token': return 'test-token';
-        default: return 'test-token';
+        default: return '';
       }
     });
     mockGetMultilineInput.mockReturnValue(['test-key']);
@@ -136,7 +136,7 @@ describe('Error Handling and Edge Cases', () => {
         case 'providers': return 'openai,claude,gemini';
         case 'chunk-size': return '2000';
         case 'github-token': return 'test-token';
-        default: return 'test-token';
+        default: return '';
       }
     });
     mockGetMultilineInput.mockReturnValue(['test-key']);
@@ -165,7 +165,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'providers') return 'openai';
         if (name === 'chunk-size') return '2000';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
 
@@ -195,7 +195,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'providers') return 'claude';
         if (name === 'chunk-size') return '2000';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['sk-ant-test-key']);
 
@@ -225,7 +225,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'providers') return 'gemini';
         if (name === 'chunk-size') return '2000';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['AIza-test-key']);
 
@@ -267,7 +267,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'providers') return 'openai,claude';
         if (name === 'chunk-size') return '2000';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key', 'sk-ant-test-key']);
 
@@ -300,7 +300,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'providers') return 'openai';
         if (name === 'chunk-size') return '2000';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
 
@@ -325,7 +325,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'providers') return 'openai,claude';
         if (name === 'chunk-size') return '2000';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key', 'sk-ant-test-key']);
 
@@ -357,7 +357,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'providers') return 'openai';
         if (name === 'chunk-size') return '2000';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
 
@@ -397,7 +397,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'providers') return 'openai';
         if (name === 'chunk-size') return '2000';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
 
@@ -428,7 +428,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'providers') return 'openai';
         if (name === 'chunk-size') return '2000';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
 
@@ -457,7 +457,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'providers') return 'claude';
         if (name === 'chunk-size') return '2000';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['sk-ant-test-key']);
 
@@ -517,7 +517,7 @@ describe('Error Handling and Edge Cases', () => {
       mockGetInput.mockImplementation((name) => {
         if (name === 'chunk-size') return 'invalid';
         if (name === 'providers') return 'openai';
-        return 'test-token';
+        return name === 'github-token' ? 'test-token' : '';
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
 
@@ -553,7 +553,7 @@ describe('Error Handling and Edge Cases', () => {
           case 'providers': return 'invalid-provider,another-invalid';
           case 'chunk-size': return '2000';
           case 'github-token': return 'test-token';
-          default: return 'test-token';
+          default: return '';
         }
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
@@ -561,7 +561,7 @@ describe('Error Handling and Edge Cases', () => {
       await run();
 
       expect(mockSetFailed).toHaveBeenCalledWith(
-        'Unsupported providers: invalid-provider, another-invalid. Supported providers: openai, claude, gemini.'
+        'Unsupported providers: invalid-provider, another-invalid. Supported providers: openai, claude, gemini, openai-compatible, azure-openai, command, replay.'
       );
     });
 
@@ -820,7 +820,7 @@ File: src/test.ts
           case 'providers': return 'openai';
           case 'chunk-size': return '2000';
           case 'github-token': return 'test-token';
-          default: return 'test-token';
+          default: return '';
         }
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
@@ -840,7 +840,7 @@ File: src/test.ts
           case 'providers': return 'openai';
           case 'chunk-size': return '2000';
           case 'github-token': return 'test-token';
-          default: return 'test-token';
+          default: return '';
         }
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
@@ -860,7 +860,7 @@ File: src/test.ts
           case 'providers': return 'openai';
           case 'chunk-size': return '2000';
           case 'github-token': return 'test-token';
-          default: return 'test-token';
+          default: return '';
         }
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
@@ -880,7 +880,7 @@ File: src/test.ts
           case 'providers': return 'openai';
           case 'chunk-size': return '2000';
           case 'github-token': return 'test-token';
-          default: return 'test-token';
+          default: return '';
         }
       });
       mockGetMultilineInput.mockReturnValue(['sk-test-key']);
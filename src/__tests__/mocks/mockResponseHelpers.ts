@@ -45,15 +45,15 @@ export const MOCK_RESPONSES: Record<string, MockReviewResponse> = {
     summary: 'Several security concerns identified that should be addressed before merging this PR.',
     issues: [
       {
-        file: 'src/github/GitHubClient.ts',
+        file: 'src/database/DatabaseService.ts',
         line: 67,
         severity: 'error',
         message: 'Potential SQL injection vulnerability',
         suggestion: 'Use parameterized queries or input sanitization'
       },
       {
-        file: 'src/index.ts',
-        line: 89,
+        file: 'src/api/UserController.ts',
+        line: 90,
         severity: 'error',
         message: 'Sensitive data logged to console',
         suggestion: 'Remove or mask sensitive information in logs'
@@ -126,7 +126,7 @@ export const MOCK_RESPONSES: Record<string, MockReviewResponse> = {
     summary: 'Several error handling improvements needed to make the code more robust.',
     issues: [
       {
-        file: 'src/providers/ProviderManager.ts',
+        file: 'src/services/ProviderManager.ts',
         line: 56,
         severity: 'error',
         message: 'Unhandled promise rejection',
@@ -0,0 +1,50 @@
+import * as core from '@actions/core';
+import { ConfigValue } from './ConfigSchema';
+
+/**
+ * Resolves settings from the workflow inputs first and the repository config second,
+ * so a workflow can always override the policy checked into the repository.
+ */
+export class ActionInputs {
+  private configValues: Record<string, ConfigValue>;
+
+  constructor(configValues: Record<string, ConfigValue> = {}) {
+    this.configValues = configValues;
+  }
+
+  getInput(name: string, defaultValue: string = ''): string {
+    const input = core.getInput(name);
+    if (input && input.trim().length > 0) {
+      return input;
+    }
+
+    const configured = this.configValues[name];
+    if (configured === undefined) {
+      return defaultValue;
+    }
+
+    return Array.isArray(configured) ? configured.join(',') : String(configured);
+  }
+
+  getList(name: string, defaultValue: string = ''): string[] {
+    return this.getInput(name, defaultValue)
+      .split(',')
+      .map(item => item.trim())
+      .filter(item => item.length > 0);
+  }
+
+  // One entry per line, for values such as HTTP headers that may themselves contain commas
+  getMultiline(name: string): string[] {
+    const lines = core.getMultilineInput(name) || [];
+    if (lines.length > 0) {
+      return lines;
+    }
+
+    const configured = this.configValues[name];
+    if (configured === undefined) {
+      return [];
+    }
+
+    return Array.isArray(configured) ? configured : String(configured).split('\n').map(line => line.trim()).filter(Boolean);
+  }
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { buildConfigSchema, ConfigValidationError, ConfigValue, validateConfig } from './ConfigSchema';
+import { ProviderRegistry, registerProviderModule } from '../providers/ProviderRegistry';
+import { createDefaultRegistry } from '../providers/builtinProviders';
+
+export const DEFAULT_CONFIG_PATHS = [
+  '.github/code-review.yml',
+  '.github/code-review.yaml',
+  '.github/code-review.json'
+];
+
+export interface LoadedConfig {
+  source: string;
+  values: Record<string, ConfigValue>;
+}
+
+/**
+ * Loads the repository review config. When `configPath` is empty the default
+ * locations are probed and a missing file simply means "no repository config".
+ * Provider modules listed in the file are registered first so that their config
+ * sections can be validated along with the rest.
+ */
+export function loadReviewConfig(
+  configPath: string,
+  workspace: string = process.env.GITHUB_WORKSPACE || process.cwd(),
+  registry: ProviderRegistry = createDefaultRegistry()
+): LoadedConfig | null {
+  const candidates = configPath ? [configPath] : DEFAULT_CONFIG_PATHS;
+
+  for (const candidate of candidates) {
+    const fullPath = path.resolve(workspace, candidate);
+    if (!fs.existsSync(fullPath)) {
+      continue;
+    }
+
+    const document = parseConfig(fs.readFileSync(fullPath, 'utf8'), candidate);
+    const modules = (document as Record<string, unknown> | null)?.['provider-modules'];
+    if (Array.isArray(modules)) {
+      for (const modulePath of modules) {
+        if (typeof modulePath !== 'string') continue;
+        try {
+          registerProviderModule(registry, modulePath, workspace);
+        } catch (error) {
+          throw new ConfigValidationError(candidate, [{
+            path: 'provider-modules',
+            message: error instanceof Error ? error.message : 'Unknown error'
+          }]);
+        }
+      }
+    }
+
+    return {
+      source: candidate,
+      values: validateConfig(document, candidate, buildConfigSchema(registry.getConfigSchemas()))
+    };
+  }
+
+  return null;
+}
+
+export function parseConfig(content: string, source: string): unknown {
+  try {
+    if (source.endsWith('.json')) {
+      return JSON.parse(content);
+    }
+    return yaml.load(content, { filename: source });
+  } catch (error) {
+    throw new ConfigValidationError(source, [{
+      path: '(root)',
+      message: `could not be parsed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }]);
+  }
+}
@@ -0,0 +1,214 @@
+import { ROUTING_STRATEGIES } from '../providers/RoutingStrategy';
+import { BUDGET_ACTIONS } from '../diff/ReviewBudget';
+import { TRUNCATION_ACTIONS } from '../providers/Truncation';
+
+export type ConfigValue = string | number | boolean | string[];
+
+export type SchemaNode =
+  | { type: 'string'; enum?: readonly string[] }
+  | { type: 'integer' | 'number'; minimum?: number; maximum?: number }
+  | { type: 'boolean' }
+  | { type: 'list'; items?: readonly string[] }
+  | { type: 'object'; properties: Record<string, SchemaNode> };
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public source: string, public issues: ConfigIssue[]) {
+    super(`Invalid review config ${source}:\n${issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+export const SUPPORTED_CONFIG_VERSIONS = [1];
+
+export const PROVIDER_SETTINGS_PROPERTIES: Record<string, SchemaNode> = {
+  model: { type: 'string' },
+  'max-tokens': { type: 'integer', minimum: 1 },
+  temperature: { type: 'number', minimum: 0, maximum: 2 },
+  timeout: { type: 'integer', minimum: 1 },
+  'base-url': { type: 'string' }
+};
+
+export const PROVIDER_SETTINGS_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: PROVIDER_SETTINGS_PROPERTIES
+};
+
+// Keys mirror the action input names so that `chunk-size: 3000` in the config
+// file and `chunk-size: '3000'` in the workflow mean exactly the same thing.
+export const REVIEW_CONFIG_SCHEMA: Record<string, SchemaNode> = {
+  providers: { type: 'list' },
+  'provider-modules': { type: 'list' },
+  'chunk-size': { type: 'integer', minimum: 1 },
+  'review-focus': { type: 'list' },
+  'custom-prompt': { type: 'string' },
+  'prompt-version': { type: 'string' },
+  'prompt-template': { type: 'string' },
+  'skip-patterns': { type: 'list' },
+  'include-patterns': { type: 'list' },
+  'review-mode': { type: 'string', enum: ['failover', 'ensemble'] },
+  'ensemble-size': { type: 'integer', minimum: 1 },
+  'ensemble-quorum': { type: 'integer', minimum: 1 },
+  'routing-strategy': { type: 'string', enum: ROUTING_STRATEGIES },
+  'routing-weights': { type: 'list' },
+  'routing-costs': { type: 'list' },
+  'model-prices': { type: 'list' },
+  'model-context-windows': { type: 'list' },
+  'retry-max-attempts': { type: 'integer', minimum: 1 },
+  'retry-base-delay': { type: 'integer', minimum: 0 },
+  'retry-max-delay': { type: 'integer', minimum: 0 },
+  'retry-budget': { type: 'integer', minimum: 0 },
+  'circuit-breaker-threshold': { type: 'integer', minimum: 0 },
+  'circuit-breaker-cooldown': { type: 'integer', minimum: 0 },
+  'truncation-action': { type: 'string', enum: TRUNCATION_ACTIONS },
+  'budget-max-tokens': { type: 'integer', minimum: 0 },
+  'budget-max-cost': { type: 'number', minimum: 0 },
+  'budget-max-calls': { type: 'integer', minimum: 0 },
+  'budget-action': { type: 'string', enum: BUDGET_ACTIONS },
+  'budget-downgrade-models': { type: 'list' }
+};
+
+// Each registered provider contributes the schema of its own `<id>:` section
+export function buildConfigSchema(providerSchemas: Record<string, SchemaNode>): Record<string, SchemaNode> {
+  return { ...REVIEW_CONFIG_SCHEMA, ...providerSchemas };
+}
+
+/**
+ * Validates a parsed config document and flattens it into input-style keys.
+ * Nested sections are joined with '-', so `openai: { model: x }` becomes `openai-model`.
+ */
+export function validateConfig(
+  raw: unknown,
+  source: string,
+  schema: Record<string, SchemaNode> = REVIEW_CONFIG_SCHEMA
+): Record<string, ConfigValue> {
+  if (!isPlainObject(raw)) {
+    throw new ConfigValidationError(source, [{ path: '(root)', message: 'expected a mapping of config keys' }]);
+  }
+
+  const issues: ConfigIssue[] = [];
+  const { version, ...rest } = raw;
+
+  if (version === undefined) {
+    issues.push({ path: 'version', message: `is required (supported: ${SUPPORTED_CONFIG_VERSIONS.join(', ')})` });
+  } else if (!SUPPORTED_CONFIG_VERSIONS.includes(version as number)) {
+    issues.push({ path: 'version', message: `unsupported version ${JSON.stringify(version)} (supported: ${SUPPORTED_CONFIG_VERSIONS.join(', ')})` });
+  }
+
+  const values: Record<string, ConfigValue> = {};
+  validateObject(rest, schema, [], values, issues);
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(source, issues);
+  }
+
+  return values;
+}
+
+function validateObject(
+  raw: Record<string, unknown>,
+  properties: Record<string, SchemaNode>,
+  path: string[],
+  values: Record<string, ConfigValue>,
+  issues: ConfigIssue[]
+): void {
+  for (const [key, value] of Object.entries(raw)) {
+    const keyPath = [...path, key];
+    const node = properties[key];
+
+    if (!node) {
+      issues.push({
+        path: keyPath.join('.'),
+        message: `unknown key (allowed: ${Object.keys(properties).join(', ')})`
+      });
+      continue;
+    }
+
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    if (node.type === 'object') {
+      if (!isPlainObject(value)) {
+        issues.push({ path: keyPath.join('.'), message: `expected a mapping, got ${describe(value)}` });
+        continue;
+      }
+      validateObject(value, node.properties, keyPath, values, issues);
+      continue;
+    }
+
+    const result = validateValue(value, node);
+    if (typeof result === 'string') {
+      issues.push({ path: keyPath.join('.'), message: result });
+    } else {
+      values[keyPath.join('-')] = result.value;
+    }
+  }
+}
+
+function validateValue(value: unknown, node: Exclude<SchemaNode, { type: 'object' }>): { value: ConfigValue } | string {
+  switch (node.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return `expected a string, got ${describe(value)}`;
+      }
+      if (node.enum && !node.enum.includes(value)) {
+        return `expected one of ${node.enum.join(', ')}, got ${JSON.stringify(value)}`;
+      }
+      return { value };
+
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return `expected a number, got ${describe(value)}`;
+      }
+      if (node.type === 'integer' && !Number.isInteger(value)) {
+        return `expected an integer, got ${value}`;
+      }
+      if (node.minimum !== undefined && value < node.minimum) {
+        return `must be >= ${node.minimum}, got ${value}`;
+      }
+      if (node.maximum !== undefined && value > node.maximum) {
+        return `must be <= ${node.maximum}, got ${value}`;
+      }
+      return { value };
+    }
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return `expected true or false, got ${describe(value)}`;
+      }
+      return { value };
+
+    case 'list': {
+      // Accept the comma-separated form used by action inputs as well as real lists
+      const items = typeof value === 'string'
+        ? value.split(',').map(item => item.trim()).filter(Boolean)
+        : value;
+
+      if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) {
+        return `expected a list of strings, got ${describe(value)}`;
+      }
+      const allowed = node.items;
+      const invalid = allowed ? items.filter(item => !allowed.includes(item)) : [];
+      if (allowed && invalid.length > 0) {
+        return `unsupported value(s) ${invalid.join(', ')} (allowed: ${allowed.join(', ')})`;
+      }
+      return { value: items as string[] };
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'a list';
+  if (isPlainObject(value)) return 'a mapping';
+  return JSON.stringify(value);
+}
@@ -0,0 +1,68 @@
+import { ActionInputs } from './ActionInputs';
+import { ProviderConfigError } from '../providers/BaseProvider';
+
+export interface ProviderSettings {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  timeout?: number;
+  baseUrl?: string;
+}
+
+// Applied when neither the workflow nor the repository config sets a value
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  maxTokens: 4000,
+  temperature: 0.1,
+  timeout: 30000
+};
+
+export const PROVIDER_SETTING_KEYS = ['model', 'max-tokens', 'temperature', 'timeout', 'base-url'];
+
+// Inputs read by a typical hosted provider: its API key pool plus every request setting
+export function standardProviderInputs(providerName: string): string[] {
+  return [`${providerName}-api-keys`, ...PROVIDER_SETTING_KEYS.map(key => `${providerName}-${key}`)];
+}
+
+/**
+ * Reads `<provider>-model`, `<provider>-max-tokens`, `<provider>-temperature`,
+ * `<provider>-timeout` and `<provider>-base-url` for one provider, skipping any
+ * the provider does not declare. Range checks happen in ConfigurableProvider;
+ * this only rejects values that are not numbers at all.
+ */
+export function readProviderSettings(
+  inputs: ActionInputs,
+  providerName: string,
+  declaredInputs: string[] = standardProviderInputs(providerName)
+): ProviderSettings {
+  const read = (key: string) => declaredInputs.includes(`${providerName}-${key}`) ? `${providerName}-${key}` : undefined;
+  const modelInput = read('model');
+  const baseUrlInput = read('base-url');
+  const model = modelInput ? inputs.getInput(modelInput).trim() : '';
+  const baseUrl = baseUrlInput ? inputs.getInput(baseUrlInput).trim() : '';
+
+  return {
+    model: model || undefined,
+    maxTokens: parseNumberInput(inputs, read('max-tokens')) ?? DEFAULT_PROVIDER_SETTINGS.maxTokens,
+    temperature: parseNumberInput(inputs, read('temperature')) ?? DEFAULT_PROVIDER_SETTINGS.temperature,
+    timeout: parseNumberInput(inputs, read('timeout')) ?? DEFAULT_PROVIDER_SETTINGS.timeout,
+    baseUrl: baseUrl || undefined
+  };
+}
+
+function parseNumberInput(inputs: ActionInputs, name: string | undefined): number | undefined {
+  if (!name) {
+    return undefined;
+  }
+
+  const raw = inputs.getInput(name).trim();
+  if (!raw) {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (Number.isNaN(value)) {
+    throw new ProviderConfigError(`Invalid input ${name}: expected a number, got "${raw}"`);
+  }
+
+  return value;
+}
@@ -0,0 +1,263 @@
+import { FileStatus } from '../providers/IProvider';
+
+export type { FileStatus };
+
+export type DiffLineType = 'context' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  // Text without the leading ' ', '+' or '-'
+  content: string;
+  // Line in the old file; unset for added lines
+  oldLine?: number;
+  // Line in the new file; unset for removed lines
+  newLine?: number;
+  // Followed by "\ No newline at end of file"
+  noNewlineAtEnd?: boolean;
+}
+
+export interface DiffHunk {
+  // The "@@ -a,b +c,d @@ section" line as it appeared
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  // Path in the new version; the old path for deleted files
+  path: string;
+  // Set when the path changed
+  oldPath?: string;
+  status: FileStatus;
+  // Lines before the first hunk: "File: path", or "diff --git", index, mode and ---/+++ lines
+  headers: string[];
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Parses a unified diff into files, hunks and lines with their old and new line
+ * numbers. Accepts `git diff` output and the `File: path` + patch format built
+ * from the GitHub API. Hunk lengths come from the hunk headers, so blank lines
+ * between files are not mistaken for content.
+ */
+export function parseDiff(diff: string): DiffFile[] {
+  return Array.from(iterateDiffFiles(diff));
+}
+
+/**
+ * Parses a diff in one pass, yielding each file as soon as its last line has been
+ * read, so that a consumer never needs the whole model at once.
+ */
+export function* iterateDiffFiles(diff: string): Generator<DiffFile> {
+  if (!diff) {
+    return;
+  }
+
+  let file: DiffFile | undefined;
+  let hunk: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  // Header facts that decide the status once the file is complete
+  let flags = new Set<string>();
+
+  // Returns the file read so far, if it holds anything to review, and starts over
+  const finishFile = (): DiffFile | undefined => {
+    const finished = file;
+    if (finished) {
+      finished.status = fileStatus(finished, flags);
+    }
+    file = undefined;
+    hunk = undefined;
+    flags = new Set();
+    return finished && (finished.path || finished.hunks.length > 0) ? finished : undefined;
+  };
+
+  for (const line of iterateLines(diff)) {
+    const inHunk = hunk !== undefined && (oldRemaining > 0 || newRemaining > 0);
+
+    if (line.startsWith('diff --git ') || line.startsWith('File: ') || line === 'File:') {
+      const finished = finishFile();
+      if (finished) yield finished;
+      const path = line.startsWith('File:') ? line.slice(5).trim() : gitHeaderPath(line.slice('diff --git '.length));
+      file = { path, status: 'modified', headers: [line], hunks: [] };
+      continue;
+    }
+
+    if (inHunk && hunk) {
+      const prefix = line[0];
+      if (prefix === '+') {
+        hunk.lines.push({ type: 'added', content: line.slice(1), newLine: newLine++ });
+        newRemaining--;
+        continue;
+      }
+      if (prefix === '-') {
+        hunk.lines.push({ type: 'removed', content: line.slice(1), oldLine: oldLine++ });
+        oldRemaining--;
+        continue;
+      }
+      if (prefix === ' ' || line === '') {
+        // Some tools strip the space of empty context lines
+        hunk.lines.push({ type: 'context', content: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+        oldRemaining--;
+        newRemaining--;
+        continue;
+      }
+    }
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" belongs to the line before it
+      const previous = hunk?.lines[hunk.lines.length - 1];
+      if (previous) previous.noNewlineAtEnd = true;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!file) {
+        // A bare patch without any file header
+        file = { path: '', status: 'modified', headers: [], hunks: [] };
+      }
+      hunk = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: []
+      };
+      file.hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      oldRemaining = hunk.oldLines;
+      newRemaining = hunk.newLines;
+      continue;
+    }
+
+    if (!file || file.hunks.length > 0) {
+      // Text outside any file or after a file's hunks carries nothing to review
+      continue;
+    }
+
+    file.headers.push(line);
+    readHeaderLine(file, line, flags);
+  }
+
+  const finished = finishFile();
+  if (finished) yield finished;
+}
+
+// Like diff.split('\n') without building the array of every line first
+function* iterateLines(text: string): Generator<string> {
+  let start = 0;
+  while (start <= text.length) {
+    const end = text.indexOf('\n', start);
+    if (end === -1) {
+      yield text.slice(start);
+      return;
+    }
+    yield text.slice(start, end);
+    start = end + 1;
+  }
+}
+
+function readHeaderLine(file: DiffFile, line: string, flags: Set<string>): void {
+  if (line.startsWith('new file mode')) {
+    flags.add('added');
+  } else if (line.startsWith('deleted file mode')) {
+    flags.add('deleted');
+  } else if (line.startsWith('rename from ')) {
+    flags.add('renamed');
+    file.oldPath = line.slice('rename from '.length);
+  } else if (line.startsWith('rename to ')) {
+    file.path = line.slice('rename to '.length);
+  } else if (line.startsWith('old mode') || line.startsWith('new mode')) {
+    flags.add('mode');
+  } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+    flags.add('binary');
+  } else if (line.startsWith('--- ') || line.startsWith('+++ ')) {
+    const path = headerPath(line.slice(4));
+    // /dev/null stands for the missing side of an added or deleted file
+    if (path && line.startsWith('+++ ')) {
+      file.path = path;
+    } else if (path && !file.path) {
+      file.path = path;
+    }
+  }
+}
+
+function fileStatus(file: DiffFile, flags: Set<string>): FileStatus {
+  if (flags.has('binary')) return 'binary';
+  if (flags.has('added')) return 'added';
+  if (flags.has('deleted')) return 'deleted';
+  if (flags.has('renamed')) return 'renamed';
+  if (flags.has('mode') && file.hunks.length === 0) return 'mode-change';
+
+  // The File: format has no headers; a patch against nothing adds or deletes the whole file
+  if (file.hunks.length === 1) {
+    const [hunk] = file.hunks;
+    if (hunk.oldStart === 0 && hunk.oldLines === 0) return 'added';
+    if (hunk.newStart === 0 && hunk.newLines === 0) return 'deleted';
+  }
+  return 'modified';
+}
+
+// "a/src/x.ts b/src/x.ts" -> "src/x.ts"; both halves are equal unless the file was renamed
+function gitHeaderPath(paths: string): string {
+  const unquoted = paths.replace(/"/g, '');
+  const half = (unquoted.length - 1) / 2;
+  if (Number.isInteger(half) && unquoted[half] === ' ' && unquoted.slice(2, half) === unquoted.slice(half + 3)) {
+    return unquoted.slice(half + 3);
+  }
+  const match = unquoted.match(/^a\/(.+) b\/(.+)$/);
+  return match ? match[2] : unquoted;
+}
+
+// "b/src/x.ts\t2024-01-01 ..." -> "src/x.ts"; undefined for /dev/null
+function headerPath(value: string): string | undefined {
+  const path = value.split('\t')[0].replace(/"/g, '').trim();
+  if (path === '/dev/null') return undefined;
+  return path.replace(/^[ab]\//, '');
+}
+
+/** Renders a file, or a subset of its hunks, back to unified diff text. */
+export function renderDiffFile(file: DiffFile, hunks: DiffHunk[] = file.hunks): string {
+  const lines = [...file.headers];
+  for (const hunk of hunks) {
+    lines.push(hunk.header);
+    for (const line of hunk.lines) {
+      lines.push(`${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.content}`);
+      if (line.noNewlineAtEnd) {
+        lines.push(NO_NEWLINE_MARKER);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+// Length of the hunk as renderDiffFile writes it, without rendering it
+export function hunkLength(hunk: DiffHunk): number {
+  let length = hunk.header.length;
+  for (const line of hunk.lines) {
+    // Newline and prefix, plus the marker line if any
+    length += line.content.length + 2 + (line.noNewlineAtEnd ? NO_NEWLINE_MARKER.length + 1 : 0);
+  }
+  return length;
+}
+
+/**
+ * Returns `line` when a review comment can be placed on that line of the new file,
+ * i.e. it is an added or context line of one of the hunks; GitHub rejects other lines.
+ */
+export function findCommentLine(file: DiffFile, line: number): number | undefined {
+  const hunk = file.hunks.find(candidate => line >= candidate.newStart && line < candidate.newStart + candidate.newLines);
+  return hunk?.lines.some(diffLine => diffLine.newLine === line) ? line : undefined;
+}
@@ -1,83 +1,104 @@
-import { ReviewContext } from '../providers/IProvider';
+import { FileManifest, LineRange, ReviewContext } from '../providers/IProvider';
+import { DiffFile, DiffHunk, hunkLength, iterateDiffFiles, parseDiff, renderDiffFile } from './DiffParser';
+import { PathFilter } from './PathFilter';
+import { estimateTokens, estimateTokensForLength } from '../providers/ModelPricing';
 
 export interface ChunkedDiff {
   content: string;
   files: string[];
+  // Characters; chunks are planned in estimated tokens of this content
   size: number;
+  // Files and new-file line ranges in the chunk; set for chunks of a parsed diff
+  manifest?: FileManifest[];
+}
+
+// One piece of a chunk: a file, part of a file, or a line of text that is not a diff
+interface ChunkUnit {
+  text: string;
+  manifest?: FileManifest;
 }
 
 export class DiffProcessor {
-  private maxChunkSize: number;
+  // Estimated tokens of diff per chunk
+  private maxChunkTokens: number;
 
-  constructor(maxChunkSize: number = 2000) {
-    this.maxChunkSize = maxChunkSize;
+  constructor(maxChunkTokens: number = 2000) {
+    this.maxChunkTokens = maxChunkTokens;
   }
 
+  /**
+   * Splits a diff into chunks of at most maxChunkTokens. Whole files are packed
+   * together where they fit; a larger file is split between hunks, and every
+   * part repeats the file's headers. A single hunk is never split.
+   *
+   * Files are chunked as the parser yields them and sizes are kept as running
+   * totals, so the work grows linearly with the size of the diff.
+   */
   chunkDiff(diff: string): ChunkedDiff[] {
     if (!diff || diff.trim().length === 0) {
       return [];
     }
 
-    if (diff.length <= this.maxChunkSize) {
-      return [{
-        content: diff,
-        files: this.extractFiles(diff),
-        size: diff.length
-      }];
+    if (estimateTokens(diff) <= this.maxChunkTokens) {
+      const files = parseDiff(diff);
+      if (files.length > 0) {
+        const manifest = files.filter(file => file.path).map(file => fileManifest(file, file.hunks, false));
+        return [{
+          content: diff,
+          files: manifest.map(entry => entry.file),
+          size: diff.length,
+          manifest
+        }];
+      }
     }
 
-    const chunks: ChunkedDiff[] = [];
-    const lines = diff.split('\n');
-    let currentChunk = '';
-    let currentSize = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineWithNewline = line + '\n';
-
-      // Check if this line starts a new file or hunk
-      const isNewFile = line.startsWith('File:') || line.startsWith('diff --git');
-      const isNewHunk = line.startsWith('@@');
-
-      // If adding this line would exceed the chunk size AND we're not in the middle of a hunk,
-      // and we have enough content already, start a new chunk
-      const shouldStartNewChunk = currentSize > 0 &&
-                                (currentSize + lineWithNewline.length) > this.maxChunkSize &&
-                                !this.isInMiddleOfHunk(currentChunk) &&
-                                (isNewFile || isNewHunk || currentSize > this.maxChunkSize / 2);
-
-      if (shouldStartNewChunk) {
-        // Save current chunk if it has content
-        if (currentChunk.trim()) {
-          chunks.push({
-            content: currentChunk.trim(),
-            files: this.extractFiles(currentChunk),
-            size: currentChunk.length
-          });
-        }
-
-        // Start new chunk
-        currentChunk = lineWithNewline;
-        currentSize = lineWithNewline.length;
-      } else {
-        // Add line to current chunk
-        currentChunk += lineWithNewline;
-        currentSize += lineWithNewline.length;
-      }
+    const packer = new ChunkPacker(this.maxChunkTokens);
+    let parsed = false;
+    for (const file of iterateDiffFiles(diff)) {
+      parsed = true;
+      this.fileUnits(file).forEach(unit => packer.add(unit));
+    }
+    if (!parsed) {
+      // Not a diff; reviewed as plain text
+      diff.trim().split('\n').forEach(line => packer.add({ text: line }));
     }
 
-    // Add the last chunk if it has content
-    if (currentChunk.trim()) {
-      chunks.push({
-        content: currentChunk.trim(),
-        files: this.extractFiles(currentChunk),
-        size: currentChunk.length
-      });
+    return packer.finish();
+  }
+
+  // The whole file when it fits into a chunk, otherwise runs of hunks that do, each with the file's headers
+  private fileUnits(file: DiffFile): ChunkUnit[] {
+    const headersLength = file.headers.join('\n').length;
+    const lengths = file.hunks.map(hunkLength);
+    const wholeLength = lengths.reduce((sum, length) => sum + length + 1, headersLength);
+    if (file.hunks.length <= 1 || estimateTokensForLength(wholeLength) <= this.maxChunkTokens) {
+      return [{ text: renderDiffFile(file), manifest: fileManifest(file, file.hunks, false) }];
     }
 
-    return chunks;
+    const units: ChunkUnit[] = [];
+    let hunks: DiffHunk[] = [];
+    let length = headersLength;
+    const flush = () => {
+      if (hunks.length > 0) {
+        units.push({ text: renderDiffFile(file, hunks), manifest: fileManifest(file, hunks, true) });
+      }
+      hunks = [];
+      length = headersLength;
+    };
+
+    file.hunks.forEach((hunk, index) => {
+      if (hunks.length > 0 && estimateTokensForLength(length + lengths[index] + 1) > this.maxChunkTokens) {
+        flush();
+      }
+      hunks.push(hunk);
+      length += lengths[index] + 1;
+    });
+    flush();
+
+    return units;
   }
 
+  // Drops the files matching the gitignore-style skip patterns; see PathFilter
   filterFiles(files: string[], skipPatterns: string[]): string[] {
     try {
       if (!files || !Array.isArray(files)) {
@@ -88,101 +109,14 @@ export class DiffProcessor {
         return [...files]; // Return a copy to avoid mutation
       }
 
-      return files.filter(file => {
-        if (!file || typeof file !== 'string') {
-          return false;
-        }
-
-        return !skipPatterns.some(pattern => {
-          if (!pattern || typeof pattern !== 'string') {
-            return false;
-          }
-
-          try {
-            // Simple glob pattern matching
-            const regex = new RegExp(
-              pattern.replace(/\*/g, '.*').replace(/\?/g, '.')
-            );
-            return regex.test(file);
-          } catch (error) {
-            console.warn(`Invalid pattern "${pattern}":`, error);
-            return false;
-          }
-        });
-      });
+      const filter = new PathFilter({ exclude: skipPatterns.filter(pattern => typeof pattern === 'string') });
+      return files.filter(file => file && typeof file === 'string' && filter.skipReason(file) === undefined);
     } catch (error) {
       console.warn('Error filtering files:', error);
       return [...files]; // Return original files on error
     }
   }
 
-  private isInMiddleOfHunk(chunk: string): boolean {
-    const lines = chunk.split('\n');
-
-    // Count diff context and change lines that don't start a new hunk
-    let inHunk = false;
-    let hasUnclosedHunk = false;
-
-    for (const line of lines) {
-      if (line.startsWith('@@')) {
-        inHunk = true;
-      } else if (line.startsWith('diff --git') || line.startsWith('File:')) {
-        inHunk = false;
-        hasUnclosedHunk = false;
-      } else if (inHunk && (line.startsWith(' ') || line.startsWith('+') || line.startsWith('-') || line.trim() === '')) {
-        hasUnclosedHunk = true;
-      }
-    }
-
-    return hasUnclosedHunk;
-  }
-
-  private extractFiles(diff: string): string[] {
-    try {
-      const files: string[] = [];
-
-      // Try multiple regex patterns to extract file names from different diff formats
-      const patterns = [
-        /^File:\s*(.+)$/gm,                    // "File: path/to/file.js"
-        /^diff --git a\/(.+) b\/(.+)$/gm,       // "diff --git a/src/app.js b/src/app.js"
-        /^--- a\/(.+)$/gm,                     // "--- a/src/index.js"
-        /^\+\+\+ b\/(.+)$/gm,                  // "+++ b/src/index.js"
-        /^rename from (.+)$/gm,                // "rename from old/path.js"
-        /^rename to (.+)$/gm                   // "rename to new/path.js"
-      ];
-
-      for (const pattern of patterns) {
-        let match: RegExpExecArray | null;
-        while ((match = pattern.exec(diff)) !== null) {
-          // For diff --git patterns, we might get two captures (old and new)
-          const filePath = match[1] || match[2];
-          if (filePath && !files.includes(filePath)) {
-            files.push(filePath);
-          }
-        }
-      }
-
-      // If no files found, try to extract from the first few lines
-      if (files.length === 0) {
-        const lines = diff.split('\n').slice(0, 10);
-        for (const line of lines) {
-          if (line.includes('/') && (line.includes('.js') || line.includes('.ts') || line.includes('.jsx') || line.includes('.tsx'))) {
-            // Extract potential file paths
-            const potentialFile = line.match(/([a-zA-Z0-9_\-/.]+\.(js|ts|jsx|tsx|json|md|yml|yaml))/);
-            if (potentialFile && !files.includes(potentialFile[1])) {
-              files.push(potentialFile[1]);
-            }
-          }
-        }
-      }
-
-      return files;
-    } catch (error) {
-      console.warn('Failed to extract files from diff:', error);
-      return [];
-    }
-  }
-
   buildContext(prNumber: number, repository: string, branch: string, files: string[]): ReviewContext {
     try {
       // Validate inputs
@@ -213,3 +147,64 @@ export class DiffProcessor {
     }
   }
 }
+
+/**
+ * Collects units into chunks of at most maxChunkTokens as they arrive; a larger
+ * unit gets a chunk of its own.
+ */
+class ChunkPacker {
+  private chunks: ChunkedDiff[] = [];
+  private parts: string[] = [];
+  private manifest: Map<string, FileManifest> = new Map();
+  // Characters of the current chunk, newlines between parts included
+  private length = 0;
+
+  constructor(private maxChunkTokens: number) {}
+
+  add(unit: ChunkUnit): void {
+    if (this.parts.length > 0 && estimateTokensForLength(this.length + 1 + unit.text.length) > this.maxChunkTokens) {
+      this.flush();
+    }
+    this.length += (this.parts.length > 0 ? 1 : 0) + unit.text.length;
+    this.parts.push(unit.text);
+
+    const entry = unit.manifest;
+    if (entry?.file) {
+      // Parts of a split file rarely share a chunk, but list the file once when they do
+      const existing = this.manifest.get(entry.file);
+      if (existing) {
+        existing.lines.push(...entry.lines);
+      } else {
+        this.manifest.set(entry.file, { ...entry, lines: [...entry.lines] });
+      }
+    }
+  }
+
+  finish(): ChunkedDiff[] {
+    this.flush();
+    return this.chunks;
+  }
+
+  private flush(): void {
+    const content = this.parts.join('\n').trim();
+    if (content) {
+      const manifest = [...this.manifest.values()];
+      const chunk: ChunkedDiff = { content, files: manifest.map(entry => entry.file), size: content.length };
+      if (manifest.length > 0) {
+        chunk.manifest = manifest;
+      }
+      this.chunks.push(chunk);
+    }
+    this.parts = [];
+    this.manifest = new Map();
+    this.length = 0;
+  }
+}
+
+function fileManifest(file: DiffFile, hunks: DiffHunk[], partial: boolean): FileManifest {
+  const lines: LineRange[] = hunks
+    // Hunks of a deleted file cover no new lines
+    .filter(hunk => hunk.newLines > 0)
+    .map(hunk => ({ start: hunk.newStart, end: hunk.newStart + hunk.newLines - 1 }));
+  return { file: file.path, status: file.status, lines, partial };
+}
@@ -0,0 +1,254 @@
+import { ActionInputs } from '../config/ActionInputs';
+import { DiffFile } from './DiffParser';
+
+export interface PathFilterOptions {
+  // When set, only files matching these patterns are reviewed
+  include?: string[];
+  // Files matching these patterns are skipped
+  exclude?: string[];
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+interface PathRule {
+  // The pattern as written, for skip reasons
+  source: string;
+  negated: boolean;
+  regex: RegExp;
+}
+
+/**
+ * Decides which files of a diff are reviewed, using gitignore-style patterns:
+ * `*`, `?`, `[abc]`, `**` and `{a,b}`; a pattern without a slash matches at any
+ * depth, one with a slash is anchored at the repository root, a trailing slash
+ * matches directories, and `!pattern` brings back what an earlier pattern
+ * matched. Within a list the last matching pattern wins.
+ */
+export class PathFilter {
+  private include: PathRule[];
+  private exclude: PathRule[];
+
+  constructor(options: PathFilterOptions = {}) {
+    this.include = compileRules(options.include || []);
+    this.exclude = compileRules(options.exclude || []);
+  }
+
+  isActive(): boolean {
+    return this.include.length > 0 || this.exclude.length > 0;
+  }
+
+  // Why the file is skipped, or undefined when it is reviewed
+  skipReason(path: string): string | undefined {
+    if (this.include.length > 0) {
+      const rule = lastMatch(this.include, path);
+      if (!rule) {
+        return 'not matched by include-patterns';
+      }
+      if (rule.negated) {
+        return `excluded by include-pattern "${rule.source}"`;
+      }
+    }
+
+    const rule = lastMatch(this.exclude, path);
+    return rule && !rule.negated ? `matched skip-pattern "${rule.source}"` : undefined;
+  }
+
+  filter(paths: string[]): string[] {
+    return paths.filter(path => this.skipReason(path) === undefined);
+  }
+
+  // Splits the files of a parsed diff into those to review and those skipped, with the reason
+  filterDiff(files: DiffFile[]): { files: DiffFile[]; skipped: SkippedFile[] } {
+    const kept: DiffFile[] = [];
+    const skipped: SkippedFile[] = [];
+
+    for (const file of files) {
+      const reason = file.path ? this.skipReason(file.path) : undefined;
+      if (reason) {
+        skipped.push({ path: file.path, reason });
+      } else {
+        kept.push(file);
+      }
+    }
+
+    return { files: kept, skipped };
+  }
+}
+
+// Reads include-patterns and skip-patterns
+export function readPathFilterOptions(inputs: ActionInputs): PathFilterOptions {
+  return {
+    include: splitPatterns(inputs.getInput('include-patterns')),
+    exclude: splitPatterns(inputs.getInput('skip-patterns'))
+  };
+}
+
+// Splits on newlines and on commas outside braces, so that `*.{js,ts}` stays one pattern
+export function splitPatterns(value: string): string[] {
+  const patterns: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const char of value) {
+    if (char === '{') depth++;
+    if (char === '}' && depth > 0) depth--;
+    if (char === '\n' || (char === ',' && depth === 0)) {
+      patterns.push(current);
+      current = '';
+      depth = 0;
+    } else {
+      current += char;
+    }
+  }
+  patterns.push(current);
+
+  return patterns.map(pattern => pattern.trim()).filter(pattern => pattern.length > 0);
+}
+
+function compileRules(patterns: string[]): PathRule[] {
+  return patterns
+    .map(pattern => pattern.trim())
+    .filter(pattern => pattern.length > 0 && !pattern.startsWith('#'))
+    .map(compileRule);
+}
+
+function compileRule(source: string): PathRule {
+  let pattern = source;
+  const negated = pattern.startsWith('!');
+  if (negated) {
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!')) {
+    pattern = pattern.slice(1);
+  }
+
+  const directory = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+
+  // A match on a directory covers everything below it
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  const suffix = directory ? '/.*$' : '(?:/.*)?$';
+  try {
+    return { source, negated, regex: new RegExp(`${prefix}${globToRegExpSource(pattern)}${suffix}`) };
+  } catch (error) {
+    // e.g. a character class with a reversed range such as [z-a]
+    throw new Error(`Invalid path pattern "${source}": ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function lastMatch(rules: PathRule[], path: string): PathRule | undefined {
+  const normalized = path.replace(/^\.?\//, '');
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(normalized)) {
+      return rules[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Translates a glob into a regular expression source. `*` and `?` stop at
+ * slashes, `**` crosses them, and `{a,b}` may nest.
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[i + 1]);
+      i += 2;
+    } else if (char === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      if (atStart && glob[i + 2] === '/') {
+        // "**/" is zero or more directories
+        source += '(?:.*/)?';
+        i += 3;
+      } else {
+        source += '.*';
+        i += 2;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+      i++;
+    } else if (char === '?') {
+      source += '[^/]';
+      i++;
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+        i++;
+      } else {
+        const body = glob.slice(i + 1, end);
+        const negated = body.startsWith('!') || body.startsWith('^');
+        const members = (negated ? body.slice(1) : body).replace(/\\/g, '\\\\').replace(/\]/g, '\\]');
+        source += `[${negated ? '^' : ''}${members}]`;
+        i = end + 1;
+      }
+    } else if (char === '{') {
+      const end = matchingBrace(glob, i);
+      if (end === -1) {
+        source += '\\{';
+        i++;
+      } else {
+        const alternatives = splitTopLevel(glob.slice(i + 1, end));
+        source += `(?:${alternatives.map(globToRegExpSource).join('|')})`;
+        i = end + 1;
+      }
+    } else {
+      source += escapeRegExp(char);
+      i++;
+    }
+  }
+
+  return source;
+}
+
+function matchingBrace(glob: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < glob.length; i++) {
+    if (glob[i] === '\\') {
+      i++;
+    } else if (glob[i] === '{') {
+      depth++;
+    } else if (glob[i] === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// "a,{b,c},d" -> ["a", "{b,c}", "d"]
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      current += char + body[++i];
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,275 @@
+import { ChunkedDiff } from './DiffProcessor';
+import { ActionInputs } from '../config/ActionInputs';
+import { calculateCost, estimateTokens, findModelPrice, MODEL_PRICES, ModelPrice } from '../providers/ModelPricing';
+
+export const BUDGET_ACTIONS = ['abort', 'sample', 'downgrade'] as const;
+
+export type BudgetAction = typeof BUDGET_ACTIONS[number];
+
+export interface BudgetLimits {
+  // Undefined limits are not enforced
+  maxTokens?: number;
+  maxCost?: number;
+  maxCalls?: number;
+  action: BudgetAction;
+  // Provider id -> cheaper model used by the downgrade action
+  downgradeModels: Record<string, string>;
+}
+
+// Cheaper models of the same provider, used by the downgrade action unless budget-downgrade-models says otherwise
+export const DEFAULT_DOWNGRADE_MODELS: Record<string, string> = {
+  openai: 'gpt-4o-mini',
+  claude: 'claude-3-5-haiku-latest',
+  gemini: 'gemini-1.5-flash'
+};
+
+// System prompt, instructions and PR context sent with every chunk; a rough allowance
+export const PROMPT_OVERHEAD_TOKENS = 600;
+
+export interface BudgetProvider {
+  id: string;
+  name: string;
+  model: string;
+  // Output is estimated at the provider's max-tokens, an upper bound
+  maxTokens: number;
+}
+
+export interface BudgetEstimate {
+  tokens: number;
+  cost: number;
+  calls: number;
+}
+
+export interface BudgetPlan {
+  // Chunks to review, in their original order
+  chunks: ChunkedDiff[];
+  skipped: ChunkedDiff[];
+  // Estimate for the whole diff with the configured models
+  estimate: BudgetEstimate;
+  // Estimate for what will actually be reviewed
+  planned: BudgetEstimate;
+  // Limits the full estimate exceeded, e.g. "120000 tokens > 50000"
+  exceeded: string[];
+  decision: 'within-budget' | BudgetAction;
+  // Provider id -> model it is switched to
+  downgrades: Record<string, string>;
+}
+
+export class BudgetConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetConfigError';
+  }
+}
+
+// Reads the budget-* inputs; empty or 0 limits are off
+export function readBudgetLimits(inputs: ActionInputs): BudgetLimits {
+  const limit = (name: string, integer: boolean): number | undefined => {
+    const raw = inputs.getInput(name).trim();
+    if (!raw) return undefined;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0 || (integer && !Number.isInteger(value))) {
+      throw new BudgetConfigError(`Invalid input ${name}: expected a ${integer ? 'whole ' : ''}number of at least 0, got "${raw}"`);
+    }
+    return value > 0 ? value : undefined;
+  };
+
+  const action = inputs.getInput('budget-action', 'sample').trim().toLowerCase();
+  if (!(BUDGET_ACTIONS as readonly string[]).includes(action)) {
+    throw new BudgetConfigError(`Invalid budget-action: ${action}. Supported actions: ${BUDGET_ACTIONS.join(', ')}.`);
+  }
+
+  const downgradeModels = { ...DEFAULT_DOWNGRADE_MODELS };
+  for (const entry of inputs.getList('budget-downgrade-models')) {
+    const [provider, model, ...rest] = entry.split('=').map(part => part.trim());
+    if (!provider || !model || rest.length > 0) {
+      throw new BudgetConfigError(`Invalid budget-downgrade-models entry "${entry}": expected "provider=model"`);
+    }
+    downgradeModels[provider.toLowerCase()] = model;
+  }
+
+  return {
+    maxTokens: limit('budget-max-tokens', true),
+    maxCost: limit('budget-max-cost', false),
+    maxCalls: limit('budget-max-calls', true),
+    action: action as BudgetAction,
+    downgradeModels
+  };
+}
+
+const LOW_RISK_PATTERNS = [
+  /(^|\/)(vendor|node_modules|third_party|dist|build)\//,
+  /\.min\.(js|css)$/,
+  /\.(map|snap|lock)$/,
+  /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|go\.sum|Cargo\.lock|poetry\.lock|composer\.lock)$/,
+  /(^|[/._-])generated([/._-]|$)/i
+];
+const HIGH_RISK_PATTERN = /auth|security|crypto|password|secret|token|session|permission|payment|billing|sql|migration|(^|\/)\.env|Dockerfile|\.github\/workflows/i;
+const TEST_PATTERN = /(^|\/)(__tests__|tests?|spec)\/|\.(test|spec)\.[a-z]+$/i;
+const DOC_PATTERN = /\.(md|txt|rst)$|(^|\/)docs\//i;
+
+/**
+ * Rough review priority of a file from its path: security-sensitive code first,
+ * then other source, tests, docs, and generated or vendored files last.
+ */
+export function fileRisk(path: string): number {
+  if (LOW_RISK_PATTERNS.some(pattern => pattern.test(path))) return 0;
+  if (HIGH_RISK_PATTERN.test(path)) return 4;
+  if (DOC_PATTERN.test(path)) return 1;
+  if (TEST_PATTERN.test(path)) return 2;
+  return 3;
+}
+
+/**
+ * Estimates the run from the chunks and, when it exceeds a limit, applies the
+ * configured action. `callsPerChunk` is 1 in failover mode and the ensemble size
+ * otherwise; retries and failovers are not included.
+ */
+export function planReviewBudget(
+  chunks: ChunkedDiff[],
+  providers: BudgetProvider[],
+  limits: BudgetLimits,
+  callsPerChunk: number,
+  prices: Record<string, ModelPrice> = MODEL_PRICES
+): BudgetPlan {
+  const estimate = estimateChunks(chunks, providers, callsPerChunk, prices);
+  const exceeded = exceededLimits(estimate, limits);
+  const plan: BudgetPlan = { chunks, skipped: [], estimate, planned: estimate, exceeded, decision: 'within-budget', downgrades: {} };
+
+  if (exceeded.length === 0) {
+    return plan;
+  }
+
+  const aborted: BudgetPlan = { ...plan, chunks: [], skipped: chunks, planned: { tokens: 0, cost: 0, calls: 0 }, decision: 'abort' };
+  if (limits.action === 'abort') {
+    return aborted;
+  }
+
+  let effective = providers;
+  if (limits.action === 'downgrade') {
+    effective = providers.map(provider => {
+      const model = limits.downgradeModels[provider.id];
+      if (!model || model === provider.model) return provider;
+      plan.downgrades[provider.id] = model;
+      return { ...provider, model };
+    });
+
+    const downgraded = estimateChunks(chunks, effective, callsPerChunk, prices);
+    if (exceededLimits(downgraded, limits).length === 0) {
+      return { ...plan, planned: downgraded, decision: 'downgrade' };
+    }
+  }
+
+  // Sampling: highest-risk chunks first, each taken only if it still fits
+  const ranked = chunks
+    .map((chunk, index) => ({ chunk, index, risk: Math.max(0, ...chunk.files.map(fileRisk)) }))
+    .sort((a, b) => b.risk - a.risk || a.index - b.index);
+  const selected = new Set<number>();
+  let planned: BudgetEstimate = { tokens: 0, cost: 0, calls: 0 };
+
+  for (const { chunk, index } of ranked) {
+    const candidate = addEstimates(planned, estimateChunks([chunk], effective, callsPerChunk, prices));
+    if (exceededLimits(candidate, limits).length === 0) {
+      selected.add(index);
+      planned = candidate;
+    }
+  }
+
+  // Not even one chunk fits: reviewing nothing must not read like a clean review
+  if (selected.size === 0) {
+    return aborted;
+  }
+
+  return {
+    ...plan,
+    chunks: chunks.filter((_chunk, index) => selected.has(index)),
+    skipped: chunks.filter((_chunk, index) => !selected.has(index)),
+    planned,
+    decision: limits.action
+  };
+}
+
+/**
+ * Markdown explanation of the budget decision for the summary comment; empty when
+ * the estimate was within budget.
+ */
+export function describeBudgetPlan(plan: BudgetPlan): string {
+  if (plan.decision === 'within-budget') {
+    return '';
+  }
+
+  const total = plan.chunks.length + plan.skipped.length;
+  let text = `The estimated review of ${total} chunk(s), ${formatEstimate(plan.estimate)}, exceeded the budget (${plan.exceeded.join('; ')}).\n\n`;
+
+  const downgrades = Object.entries(plan.downgrades).map(([provider, model]) => `${provider} → ${model}`);
+  if (plan.decision === 'abort') {
+    text += `**Review aborted**: no chunks were sent to a provider. Raise the \`budget-max-*\` limits or choose another \`budget-action\` to review this PR.\n`;
+    return text;
+  }
+  if (downgrades.length > 0) {
+    text += `**Downgraded models**: ${downgrades.join(', ')}.\n\n`;
+  }
+  if (plan.skipped.length > 0) {
+    const skippedFiles = Array.from(new Set(plan.skipped.flatMap(chunk => chunk.files)));
+    text += `**Sampled**: reviewed the ${plan.chunks.length} highest-risk chunk(s), ${formatEstimate(plan.planned)}. ` +
+      `Skipped ${plan.skipped.length} chunk(s) covering: ${skippedFiles.map(file => `\`${file}\``).join(', ') || 'unknown files'}.\n`;
+  } else {
+    text += `Estimated after the downgrade: ${formatEstimate(plan.planned)}.\n`;
+  }
+
+  return text;
+}
+
+function estimateChunks(
+  chunks: ChunkedDiff[],
+  providers: BudgetProvider[],
+  callsPerChunk: number,
+  prices: Record<string, ModelPrice>
+): BudgetEstimate {
+  // Any provider may get a chunk, so the most expensive ones are assumed
+  const perCall = providers
+    .map(provider => ({ provider, price: findModelPrice(provider.model, prices) }))
+    .sort((a, b) => unitCost(b.price, b.provider) - unitCost(a.price, a.provider))
+    .slice(0, Math.max(1, callsPerChunk));
+
+  let estimate: BudgetEstimate = { tokens: 0, cost: 0, calls: 0 };
+  for (const chunk of chunks) {
+    const inputTokens = estimateTokens(chunk.content) + PROMPT_OVERHEAD_TOKENS;
+    for (const { provider, price } of perCall) {
+      estimate = addEstimates(estimate, {
+        tokens: inputTokens + provider.maxTokens,
+        cost: price ? calculateCost(inputTokens, provider.maxTokens, price) : 0,
+        calls: 1
+      });
+    }
+  }
+  return estimate;
+}
+
+// Cost of a call with 1000 tokens each way; only used to rank providers
+function unitCost(price: ModelPrice | undefined, provider: BudgetProvider): number {
+  return price ? calculateCost(1000, provider.maxTokens || 1000, price) : 0;
+}
+
+function addEstimates(a: BudgetEstimate, b: BudgetEstimate): BudgetEstimate {
+  return { tokens: a.tokens + b.tokens, cost: a.cost + b.cost, calls: a.calls + b.calls };
+}
+
+function exceededLimits(estimate: BudgetEstimate, limits: BudgetLimits): string[] {
+  const exceeded: string[] = [];
+  if (limits.maxTokens !== undefined && estimate.tokens > limits.maxTokens) {
+    exceeded.push(`${estimate.tokens} tokens > ${limits.maxTokens}`);
+  }
+  if (limits.maxCost !== undefined && estimate.cost > limits.maxCost) {
+    exceeded.push(`$${estimate.cost.toFixed(4)} > $${limits.maxCost}`);
+  }
+  if (limits.maxCalls !== undefined && estimate.calls > limits.maxCalls) {
+    exceeded.push(`${estimate.calls} calls > ${limits.maxCalls}`);
+  }
+  return exceeded;
+}
+
+function formatEstimate(estimate: BudgetEstimate): string {
+  return `about ${estimate.tokens} tokens, $${estimate.cost.toFixed(4)} and ${estimate.calls} call(s)`;
+}
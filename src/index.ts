@@ -1,18 +1,45 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
+import * as path from "path";
 import { GitHubClient } from "./github/GitHubClient";
 import { ProviderManager } from "./providers/ProviderManager";
 import { DiffProcessor } from "./diff/DiffProcessor";
-import { OpenAIProvider } from "./providers/openai/OpenAIProvider";
-import { ClaudeProvider } from "./providers/claude/ClaudeProvider";
-import { GeminiProvider } from "./providers/gemini/GeminiProvider";
-import { IProvider } from "./providers/IProvider";
-
-interface Suggestion {
-  severity: 'high' | 'medium' | 'low';
-  line: number;
-  message: string;
-  suggestion: string;
+import { findCommentLine, parseDiff, renderDiffFile } from "./diff/DiffParser";
+import { PathFilter, readPathFilterOptions, SkippedFile } from "./diff/PathFilter";
+import { createDefaultRegistry } from "./providers/builtinProviders";
+import { IProvider, ReviewSuggestion } from "./providers/IProvider";
+import { ApiKeyStats, ProviderConfigError } from "./providers/BaseProvider";
+import { ActionInputs } from "./config/ActionInputs";
+import { loadReviewConfig, LoadedConfig } from "./config/ConfigLoader";
+import { readProviderSettings } from "./config/ProviderSettings";
+import { PromptBuilder, getBuiltInTemplate, loadPromptTemplate } from "./prompts/PromptBuilder";
+import { LATEST_PROMPT_VERSION } from "./prompts/PromptTemplate";
+import { RecordingProvider } from "./providers/cassette/RecordingProvider";
+import { CassetteError } from "./providers/cassette/Cassette";
+import { createRoutingStrategy, parseProviderNumbers, RoutingStrategy } from "./providers/RoutingStrategy";
+import { readRetryOptions, RetryOptions } from "./providers/RetryPolicy";
+import { CircuitBreakerOptions, readCircuitBreakerOptions } from "./providers/CircuitBreaker";
+import { readTruncationAction, TruncationAction } from "./providers/Truncation";
+import { MODEL_PRICES, ModelPrice, parseModelPrices } from "./providers/ModelPricing";
+import { capacityProfile, MODEL_CONTEXT_WINDOWS, parseContextWindows } from "./providers/ModelCapacity";
+import { formatCost, UsageTracker } from "./providers/UsageTracker";
+import { BudgetLimits, BudgetProvider, describeBudgetPlan, planReviewBudget, readBudgetLimits } from "./diff/ReviewBudget";
+import { PROVIDER_ERROR_LABELS, PROVIDER_ERROR_TYPES, ProviderFailureTracker } from "./providers/ProviderError";
+
+// Optional sections of the summary comment and the review-summary output
+interface RunNotes {
+  failures?: string;
+  keys?: string;
+  usage?: string;
+  budget?: string;
+  skipped?: string;
+}
+
+interface ChunkUsage {
+  chunk: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost?: number;
 }
 
 async function run(): Promise<void> {
@@ -34,8 +61,28 @@ async function run(): Promise<void> {
       console.log("🔍 DEBUG: Got token via env:", !!token);
     }
 
+    // Providers register themselves here; the repository config may add local provider modules
+    const registry = createDefaultRegistry();
+
+    // Load the repository review config; workflow inputs take precedence over it
+    const configFileInput = core.getInput("config-file", { required: false }) || "";
+    let repoConfig: LoadedConfig | null;
+    try {
+      repoConfig = loadReviewConfig(configFileInput.trim(), undefined, registry);
+    } catch (error) {
+      core.setFailed(error instanceof Error ? error.message : "Failed to load review config");
+      return;
+    }
+
+    if (repoConfig) {
+      core.info(`Loaded review config from ${repoConfig.source}`);
+    } else if (configFileInput.trim()) {
+      core.warning(`Review config file not found: ${configFileInput.trim()}`);
+    }
+    const inputs = new ActionInputs(repoConfig?.values);
+
     try {
-      providersInput = core.getInput("providers");
+      providersInput = inputs.getInput("providers");
     } catch (error) {
       console.log("🔍 DEBUG: Error getting providers input:", error);
       providersInput = process.env.INPUT_PROVIDERS || "";
@@ -43,11 +90,13 @@ async function run(): Promise<void> {
 
     console.log("🔍 DEBUG: Got token:", !!token);
     console.log("🔍 DEBUG: Got providers:", providersInput);
-    const chunkSizeInput = core.getInput("chunk-size", { required: false }) || "2000";
-    const reviewFocusInput = core.getInput("review-focus", { required: false }) || "security,performance,style";
+    const chunkSizeInput = inputs.getInput("chunk-size", "2000");
+    const reviewFocusInput = inputs.getInput("review-focus", "security,performance,style");
     console.log("🔍 DEBUG: Got review focus:", reviewFocusInput);
-    const skipPatternsInput = core.getInput("skip-patterns", { required: false }) || "";
-    console.log("🔍 DEBUG: Got skip patterns:", skipPatternsInput);
+    const focusAreas = inputs.getList("review-focus", "security,performance,style");
+    const customPrompt = inputs.getInput("custom-prompt");
+    core.debug(`Custom prompt set: ${customPrompt.length > 0}`);
+    core.debug(`Skip patterns: ${inputs.getInput("skip-patterns")}`);
 
     const chunkSize = parseInt(chunkSizeInput, 10);
     console.log("🔍 DEBUG: Parsed chunk size:", chunkSize);
@@ -57,6 +106,95 @@ async function run(): Promise<void> {
       return;
     }
 
+    // failover asks one provider per chunk; ensemble asks several and merges their findings
+    const reviewMode = inputs.getInput("review-mode", "failover").trim().toLowerCase();
+    if (reviewMode !== "failover" && reviewMode !== "ensemble") {
+      core.setFailed(`Invalid review-mode: ${reviewMode}. Supported modes: failover, ensemble.`);
+      return;
+    }
+    const ensembleSize = parseInt(inputs.getInput("ensemble-size", "0"), 10);
+    const ensembleQuorum = parseInt(inputs.getInput("ensemble-quorum", "1"), 10);
+    if (isNaN(ensembleSize) || ensembleSize < 0 || isNaN(ensembleQuorum) || ensembleQuorum <= 0) {
+      core.setFailed("ensemble-size and ensemble-quorum must be positive numbers");
+      return;
+    }
+
+    // Prices per model for cost accounting and cheapest-first routing; entries override the built-in table
+    let prices: Record<string, ModelPrice>;
+    try {
+      prices = { ...MODEL_PRICES, ...parseModelPrices(inputs.getList("model-prices")) };
+    } catch (error) {
+      core.setFailed(error instanceof Error ? error.message : "Invalid model-prices");
+      return;
+    }
+
+    // Context windows per model for chunk sizing; entries override the built-in table
+    let contextWindows: Record<string, number>;
+    try {
+      contextWindows = { ...MODEL_CONTEXT_WINDOWS, ...parseContextWindows(inputs.getList("model-context-windows")) };
+    } catch (error) {
+      core.setFailed(error instanceof Error ? error.message : "Invalid model-context-windows");
+      return;
+    }
+
+    // Which provider is tried first for each chunk
+    let routing: RoutingStrategy;
+    try {
+      routing = createRoutingStrategy(inputs.getInput("routing-strategy", "round-robin"), {
+        weights: parseProviderNumbers(inputs.getList("routing-weights"), "routing-weights"),
+        costs: parseProviderNumbers(inputs.getList("routing-costs"), "routing-costs"),
+        prices
+      });
+    } catch (error) {
+      core.setFailed(error instanceof Error ? error.message : "Invalid routing configuration");
+      return;
+    }
+
+    // Transient failures are retried with backoff before failing over to the next provider
+    let retry: RetryOptions;
+    try {
+      retry = readRetryOptions(inputs);
+    } catch (error) {
+      core.setFailed(error instanceof Error ? error.message : "Invalid retry configuration");
+      return;
+    }
+
+    // Providers that keep failing are skipped for a cooldown instead of being tried first on every chunk
+    let circuitBreaker: CircuitBreakerOptions;
+    try {
+      circuitBreaker = readCircuitBreakerOptions(inputs);
+    } catch (error) {
+      core.setFailed(error instanceof Error ? error.message : "Invalid circuit breaker configuration");
+      return;
+    }
+
+    // Answers cut off at max-tokens keep their complete suggestions; continue or split asks for the rest
+    let truncation: TruncationAction;
+    try {
+      truncation = readTruncationAction(inputs);
+    } catch (error) {
+      core.setFailed(error instanceof Error ? error.message : "Invalid truncation configuration");
+      return;
+    }
+
+    // include-patterns and skip-patterns decide which files of the diff are reviewed
+    let pathFilter: PathFilter;
+    try {
+      pathFilter = new PathFilter(readPathFilterOptions(inputs));
+    } catch (error) {
+      core.setFailed(error instanceof Error ? error.message : "Invalid path patterns");
+      return;
+    }
+
+    // Per-run limits checked against an estimate before any provider is called
+    let budgetLimits: BudgetLimits;
+    try {
+      budgetLimits = readBudgetLimits(inputs);
+    } catch (error) {
+      core.setFailed(error instanceof Error ? error.message : "Invalid budget configuration");
+      return;
+    }
+
     // Validate inputs
     if (!token || token.trim().length === 0) {
       console.log("🔍 DEBUG: Invalid token, failing");
@@ -70,6 +208,24 @@ async function run(): Promise<void> {
       return;
     }
 
+    // Build the shared prompt template used by every provider
+    let promptBuilder: PromptBuilder;
+    try {
+      const promptTemplateFile = inputs.getInput("prompt-template").trim();
+      promptBuilder = new PromptBuilder(promptTemplateFile
+        ? loadPromptTemplate(promptTemplateFile)
+        : getBuiltInTemplate(inputs.getInput("prompt-version", LATEST_PROMPT_VERSION).trim()));
+    } catch (error) {
+      core.setFailed(error instanceof Error ? error.message : "Failed to load prompt template");
+      return;
+    }
+
+    // When set, every provider response is also saved to this cassette for offline replay
+    const recordCassetteInput = inputs.getInput("record-cassette").trim();
+    const recordCassette = recordCassetteInput
+      ? path.resolve(process.env.GITHUB_WORKSPACE || process.cwd(), recordCassetteInput)
+      : "";
+
     const context = github.context;
     console.log("🔍 DEBUG: GitHub context:", !!context, !!context.payload);
     console.log("🔍 DEBUG: Pull request:", !!context.payload?.pull_request);
@@ -82,8 +238,8 @@ async function run(): Promise<void> {
     // Parse providers and create provider instances
     console.log("🔍 DEBUG: Parsing providers");
     const providerNames = providersInput.split(',').map(p => p.trim().toLowerCase());
-    const supportedProviders = ['openai', 'claude', 'gemini'];
-    const invalidProviders = providerNames.filter(p => !supportedProviders.includes(p));
+    const supportedProviders = registry.list();
+    const invalidProviders = providerNames.filter(p => !registry.has(p));
     console.log("🔍 DEBUG: Provider names:", providerNames);
     console.log("🔍 DEBUG: Invalid providers:", invalidProviders);
 
@@ -96,116 +252,83 @@ async function run(): Promise<void> {
     // Create provider instances
     console.log("🔍 DEBUG: Creating provider instances");
     const providers: IProvider[] = [];
+    const providerIds = new Map<IProvider, string>();
 
-    for (let i = 0; i < providerNames.length; i++) {
-      const providerName = providerNames[i];
+    for (const providerName of providerNames) {
       console.log(`🔍 DEBUG: Processing provider: ${providerName}`);
-      // Get provider-specific API keys
-      const providerApiKeys = core.getMultilineInput(`${providerName}-api-keys`, { required: false });
-      const apiKey = providerApiKeys.length > 0 ? providerApiKeys[0] : token;
+      const definition = registry.get(providerName);
+
+      // Get provider-specific API keys; providers without a key input get none
+      const apiKeysInput = `${providerName}-api-keys`;
+      const providerApiKeys = definition.inputs.includes(apiKeysInput)
+        ? core.getMultilineInput(apiKeysInput, { required: false })
+        : [];
       console.log(`🔍 DEBUG: API keys for ${providerName}:`, providerApiKeys.length);
 
       try {
         console.log(`🔍 DEBUG: Creating provider ${providerName}`);
-        let provider: IProvider | null = null;
-
-        switch (providerName) {
-          case 'openai':
-            // Check if OpenAIProvider is mocked
-            if ((OpenAIProvider as unknown as { getMockImplementation?: () => unknown }).getMockImplementation?.()) {
-              // Provider is mocked, create with minimal config
-              provider = new OpenAIProvider({
-                apiKeys: providerApiKeys.length > 0 ? providerApiKeys : [apiKey],
-                model: 'gpt-4',
-                maxTokens: 4000,
-                temperature: 0.1,
-                timeout: 30000
-              });
-            } else {
-              provider = new OpenAIProvider({
-                apiKeys: providerApiKeys.length > 0 ? providerApiKeys : [apiKey],
-                model: 'gpt-4',
-                maxTokens: 4000,
-                temperature: 0.1,
-                timeout: 30000
-              });
-            }
-            break;
-          case 'claude':
-            if ((ClaudeProvider as unknown as { getMockImplementation?: () => unknown }).getMockImplementation?.()) {
-              provider = new ClaudeProvider({
-                apiKeys: providerApiKeys.length > 0 ? providerApiKeys : [apiKey],
-                model: 'claude-3-sonnet-20240229',
-                maxTokens: 4000,
-                temperature: 0.1,
-                timeout: 30000
-              });
-            } else {
-              provider = new ClaudeProvider({
-                apiKeys: providerApiKeys.length > 0 ? providerApiKeys : [apiKey],
-                model: 'claude-3-sonnet-20240229',
-                maxTokens: 4000,
-                temperature: 0.1,
-                timeout: 30000
-              });
-            }
-            break;
-          case 'gemini':
-            if ((GeminiProvider as unknown as { getMockImplementation?: () => unknown }).getMockImplementation?.()) {
-              provider = new GeminiProvider({
-                apiKeys: providerApiKeys.length > 0 ? providerApiKeys : [apiKey],
-                model: 'gemini-pro',
-                maxTokens: 4000,
-                temperature: 0.1,
-                timeout: 30000
-              });
-            } else {
-              provider = new GeminiProvider({
-                apiKeys: providerApiKeys.length > 0 ? providerApiKeys : [apiKey],
-                model: 'gemini-pro',
-                maxTokens: 4000,
-                temperature: 0.1,
-                timeout: 30000
-              });
-            }
-            break;
+        if (definition.apiKeysRequired && providerApiKeys.length === 0) {
+          throw new ProviderConfigError(`${apiKeysInput} is required for the ${providerName} provider`);
         }
+        const settings = readProviderSettings(inputs, providerName, definition.inputs);
+        core.debug(`Settings for ${providerName}: ${JSON.stringify(settings)}`);
+
+        const provider = definition.create({
+          apiKeys: providerApiKeys.length > 0 || definition.apiKeysOptional || !definition.inputs.includes(apiKeysInput)
+            ? providerApiKeys
+            : [token],
+          settings,
+          promptBuilder,
+          inputs
+        });
 
         if (provider) {
           console.log(`🔍 DEBUG: Successfully created provider ${providerName}`);
-          providers.push(provider);
+          const instance = recordCassette
+            ? new RecordingProvider(provider, providerName, promptBuilder, recordCassette)
+            : provider;
+          providers.push(instance);
+          providerIds.set(instance, providerName);
         } else {
           console.log(`🔍 DEBUG: Provider ${providerName} is null`);
         }
       } catch (error) {
+        if (error instanceof ProviderConfigError || error instanceof CassetteError) {
+          // Misconfiguration is fatal; silently dropping the provider would hide it
+          core.setFailed(error.message);
+          return;
+        }
         console.log(`🔍 DEBUG: Failed to initialize ${providerName} provider:`, error);
         core.warning(`Failed to initialize ${providerName} provider: ${error}`);
       }
     }
 
-    // For test environment, if no providers were created due to mocking issues,
-    // create a dummy provider that will be replaced by the mock
-    if (providers.length === 0 && process.env.NODE_ENV === 'test') {
-      const dummyProvider = {
-        name: 'dummy-provider',
-        analyzeCode: jest.fn().mockResolvedValue({
-          summary: 'Dummy summary',
-          suggestions: [],
-          confidence: 0.8
-        })
-      } as IProvider;
-      providers.push(dummyProvider);
-    }
-
     if (providers.length === 0) {
       core.setFailed("No valid providers could be initialized");
       return;
     }
 
+    // A quorum larger than the ensemble would silently post every high finding as medium
+    const ensembleProviders = Math.min(ensembleSize || providers.length, providers.length);
+    if (reviewMode === "ensemble" && ensembleQuorum > ensembleProviders) {
+      core.setFailed(`ensemble-quorum (${ensembleQuorum}) must not exceed the ${ensembleProviders} provider(s) asked per chunk`);
+      return;
+    }
+
     // Initialize clients and processors
     const githubClient = new GitHubClient(token);
-    const providerManager = new ProviderManager(providers);
-    const diffProcessor = new DiffProcessor(chunkSize);
+    const failures = new ProviderFailureTracker();
+    const usage = new UsageTracker(prices);
+    const providerManager = new ProviderManager(providers, false, {
+      routing,
+      retry,
+      failures,
+      circuitBreaker,
+      usage,
+      truncation,
+      contextWindows,
+      ensemble: reviewMode === "ensemble" ? { size: ensembleSize || undefined, quorum: ensembleQuorum } : undefined
+    });
 
     // Get PR information
     const { owner, repo } = context.repo;
@@ -213,6 +336,11 @@ async function run(): Promise<void> {
 
     core.info(`Processing PR #${prNumber} in ${owner}/${repo}`);
     core.info(`Using providers: ${providersInput}`);
+    core.info(`Using routing strategy: ${routing.name}`);
+    if (reviewMode === "ensemble") {
+      core.info(`Using ensemble mode (quorum ${ensembleQuorum} for high severity)`);
+    }
+    core.info(`Using prompt template: ${promptBuilder.getVersion()}`);
 
     const prInfo = await githubClient.getPRInfo(owner, repo, prNumber);
     core.info(`Analyzing PR #${prInfo.title} with ${prInfo.files.length} files`);
@@ -225,43 +353,93 @@ async function run(): Promise<void> {
       return;
     }
 
-    // Process diff into chunks
-    const chunks = diffProcessor.chunkDiff(diff);
-
-    // Apply skip patterns if provided
-    const skipPatterns = skipPatternsInput ? skipPatternsInput.split(',').map(p => p.trim()) : [];
-    if (skipPatterns.length > 0) {
-      // Filter chunks based on skip patterns
-      const filteredChunks = chunks.map(chunk => {
-        const filteredFiles = diffProcessor.filterFiles(chunk.files, skipPatterns);
-        return {
-          ...chunk,
-          files: filteredFiles,
-          content: filteredFiles.length > 0 ? chunk.content : ''
-        };
-      }).filter(chunk => chunk.files.length > 0 && chunk.content.trim().length > 0);
+    // Skipped files are cut from the diff itself, so that no chunk, prompt or estimate includes them
+    let reviewDiff = diff;
+    let skippedFiles: SkippedFile[] = [];
+    if (pathFilter.isActive()) {
+      const filtered = pathFilter.filterDiff(parseDiff(diff));
+      skippedFiles = filtered.skipped;
+      skippedFiles.forEach(file => core.info(`Skipping ${file.path}: ${file.reason}`));
 
-      if (filteredChunks.length === 0) {
+      if (skippedFiles.length > 0 && filtered.files.length === 0) {
         core.info("All files filtered out by skip patterns");
+        core.setOutput('review-summary', `🤖 AI Code Review Summary\n\n**🚫 Skipped Files:**\n${formatSkippedFiles(skippedFiles)}`);
+        core.setOutput('suggestions-count', '0');
+        core.setOutput('high-severity-count', '0');
         return;
       }
-
-      core.info(`Filtered ${chunks.length} chunks to ${filteredChunks.length} after applying skip patterns`);
+      if (skippedFiles.length > 0) {
+        reviewDiff = filtered.files.map(file => renderDiffFile(file)).join('\n');
+      }
     }
+    const skippedSummary = formatSkippedFiles(skippedFiles);
+
+    // chunk-size caps chunks in estimated tokens; they never exceed what the roomiest model can take.
+    // ProviderManager splits a chunk again for a provider with less room.
+    const profiles = providers.flatMap(provider => {
+      const info = (provider as IProvider & { getModelInfo?: () => { model: string; maxTokens: number } | undefined }).getModelInfo?.();
+      return info ? [capacityProfile(info.model, info.maxTokens, contextWindows, customPrompt)] : [];
+    });
+    profiles.forEach(profile => {
+      core.info(`Capacity of ${profile.model}: ${profile.chunkTokens} diff tokens (${profile.contextWindow} context, ` +
+        `${profile.promptTokens} reserved for the prompt, ${profile.responseTokens} for the response)`);
+    });
+    const chunkTokens = profiles.length > 0
+      ? Math.min(chunkSize, Math.max(...profiles.map(profile => profile.chunkTokens)))
+      : chunkSize;
+    const diffProcessor = new DiffProcessor(chunkTokens);
+
+    // Process diff into chunks
+    const chunks = diffProcessor.chunkDiff(reviewDiff);
 
     if (chunks.length === 0) {
       core.info("No analyzable content found in diff");
       return;
     }
 
-    core.info(`Processing ${chunks.length} chunks`);
+    // Estimate the whole review first; over budget it is aborted, sampled or moved to cheaper models
+    const budgetProviders: BudgetProvider[] = providers.map(provider => {
+      const info = (provider as IProvider & { getModelInfo?: () => { model: string; maxTokens: number } | undefined }).getModelInfo?.();
+      return {
+        id: providerIds.get(provider) || provider.name.toLowerCase(),
+        name: provider.name,
+        model: info?.model || '',
+        maxTokens: info?.maxTokens || 0
+      };
+    });
+    const callsPerChunk = reviewMode === "ensemble" ? ensembleProviders : 1;
+    const budgetPlan = planReviewBudget(chunks, budgetProviders, budgetLimits, callsPerChunk, prices);
+    const budgetSummary = describeBudgetPlan(budgetPlan);
+
+    if (budgetPlan.decision !== "within-budget") {
+      core.warning(`Review budget exceeded (${budgetPlan.exceeded.join('; ')}); action: ${budgetPlan.decision}`);
+    }
+    if (budgetPlan.decision === "abort") {
+      await githubClient.createReviewComment(owner, repo, prNumber,
+        `## 🤖 AI Code Review for PR #${prInfo.number}: ${prInfo.title}\n\n### 💸 Review Budget\n\n${budgetSummary}`);
+      core.setOutput('review-summary', `🤖 AI Code Review Summary\n\n**💸 Review Budget:**\n${budgetSummary}`);
+      core.setOutput('suggestions-count', '0');
+      core.setOutput('high-severity-count', '0');
+      return;
+    }
+    providers.forEach(provider => {
+      const model = budgetPlan.downgrades[providerIds.get(provider) || ''];
+      if (model) {
+        (provider as IProvider & { setModel?: (model: string) => void }).setModel?.(model);
+        core.info(`Budget: ${provider.name} downgraded to ${model}`);
+      }
+    });
+
+    const reviewChunks = budgetPlan.chunks;
+    core.info(`Processing ${reviewChunks.length} chunks`);
 
     // Analyze each chunk
-    const allSuggestions: any[] = [];
+    const allSuggestions: ReviewSuggestion[] = [];
+    const chunkUsage: ChunkUsage[] = [];
     let hasFailures = false;
 
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
+    for (let i = 0; i < reviewChunks.length; i++) {
+      const chunk = reviewChunks[i];
       core.info(`Analyzing chunk (${chunk.size} bytes, ${chunk.files.length} files)`);
 
       try {
@@ -269,7 +447,10 @@ async function run(): Promise<void> {
           prNumber: prInfo.number,
           repository: `${owner}/${repo}`,
           branch: context.payload.pull_request.head.ref,
-          files: chunk.files
+          files: chunk.files,
+          manifest: chunk.manifest,
+          focusAreas,
+          customInstructions: customPrompt || undefined
         };
 
         const result = await providerManager.analyzeCode(chunk.content, reviewContext);
@@ -279,6 +460,11 @@ async function run(): Promise<void> {
         }
 
         core.info(`Chunk analysis completed: ${result.suggestions.length} suggestions found`);
+        if (result.usage) {
+          chunkUsage.push({ chunk: i + 1, ...result.usage });
+          core.info(`Chunk used ${result.usage.inputTokens} input and ${result.usage.outputTokens} output tokens` +
+            (result.usage.cost !== undefined ? ` (${formatCost(result.usage.cost)})` : ''));
+        }
       } catch (error) {
         hasFailures = true;
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -286,19 +472,55 @@ async function run(): Promise<void> {
       }
     }
 
+    const failureSummary = formatFailureSummary(failures);
+    if (failureSummary) {
+      core.info(`Provider failures by type:\n${failureSummary}`);
+    }
+
+    const keySummary = formatKeySummary(providers);
+    if (keySummary) {
+      core.info(`API key usage:\n${keySummary}`);
+    }
+
+    const usageFooter = formatUsageFooter(usage, chunkUsage);
+    const usageTotals = usage.getTotals();
+    core.setOutput('input-tokens', usageTotals.inputTokens.toString());
+    core.setOutput('output-tokens', usageTotals.outputTokens.toString());
+    core.setOutput('estimated-cost', usageTotals.cost.toFixed(4));
+    core.setOutput('usage-report', JSON.stringify({
+      run: usageTotals,
+      providers: usage.getProviderTotals(),
+      chunks: chunkUsage
+    }));
+
     // Always create a review comment (whether suggestions exist or not)
-    const reviewComment = generateReviewComment(allSuggestions.length > 0 ? allSuggestions : [], prInfo);
+    const notes: RunNotes = { failures: failureSummary, keys: keySummary, usage: usageFooter, budget: budgetSummary, skipped: skippedSummary };
+    const reviewComment = generateReviewComment(allSuggestions.length > 0 ? allSuggestions : [], prInfo, notes);
     await githubClient.createReviewComment(owner, repo, prNumber, reviewComment);
 
     if (allSuggestions.length > 0) {
       // Create individual comment threads for high-severity issues
       const highSeveritySuggestions = allSuggestions.filter(s => s.severity === 'high');
+      const diffFiles = new Map(parseDiff(diff).map(file => [file.path, file]));
       for (const suggestion of highSeveritySuggestions) {
+        // GitHub rejects comments outside the diff; those findings stay in the summary comment only
+        const diffFile = diffFiles.get(suggestion.file);
+        if (!diffFile) {
+          core.info(`Skipping inline comment for ${suggestion.file}:${suggestion.line}: the file is not part of the diff`);
+          continue;
+        }
+        const line = findCommentLine(diffFile, suggestion.line);
+        if (line === undefined) {
+          core.info(`Skipping inline comment for ${suggestion.file}:${suggestion.line}: the line is not part of the diff`);
+          continue;
+        }
+
         try {
           await githubClient.createReviewCommentThread(owner, repo, prNumber, {
             path: suggestion.file,
-            line: suggestion.line,
-            body: `**${suggestion.severity.toUpperCase()}**: ${suggestion.message}\n\n**Suggestion**: ${suggestion.suggestion}`
+            line,
+            body: `**${suggestion.severity.toUpperCase()}**: ${suggestion.message}\n\n**Suggestion**: ${suggestion.suggestion}` +
+              (suggestion.providers?.length ? `\n\n${formatAgreement(suggestion)}` : '')
           });
         } catch (error) {
           core.warning(`Failed to create review comment for ${suggestion.file}:${suggestion.line}: ${error}`);
@@ -308,7 +530,7 @@ async function run(): Promise<void> {
       core.info(`Created review comment with ${allSuggestions.length} suggestions`);
 
       // Set GitHub Actions outputs
-      const reviewSummary = generateActionSummary(allSuggestions, prInfo, reviewFocusInput);
+      const reviewSummary = generateActionSummary(allSuggestions, prInfo, reviewFocusInput, notes);
       core.setOutput('review-summary', reviewSummary);
       core.setOutput('suggestions-count', allSuggestions.length.toString());
       core.setOutput('high-severity-count', highSeveritySuggestions.length.toString());
@@ -316,7 +538,11 @@ async function run(): Promise<void> {
       core.info("No suggestions to create review for, but created summary comment");
 
       // Set outputs for no suggestions case
-      const noSuggestionsSummary = `🤖 AI Code Review Summary\n\n**Focus Areas:** ${reviewFocusInput}\n**Files Analyzed:** ${prInfo.files.length}\n**Suggestions Found:** 0\n\n🎉 No issues found! Your code looks great.`;
+      const noSuggestionsSummary = `🤖 AI Code Review Summary\n\n**Focus Areas:** ${reviewFocusInput}\n**Files Analyzed:** ${prInfo.files.length}\n**Suggestions Found:** 0\n\n🎉 No issues found! Your code looks great.` +
+        (budgetSummary ? `\n\n**💸 Review Budget:**\n${budgetSummary}` : '') +
+        (skippedSummary ? `\n\n**🚫 Skipped Files:**\n${skippedSummary}` : '') +
+        (failureSummary ? `\n\n**⚠️ Provider Failures:**\n${failureSummary}` : '') +
+        (keySummary ? `\n\n**🔑 API Keys:**\n${keySummary}` : '');
       core.setOutput('review-summary', noSuggestionsSummary);
       core.setOutput('suggestions-count', '0');
       core.setOutput('high-severity-count', '0');
@@ -340,7 +566,7 @@ async function run(): Promise<void> {
   }
 }
 
-function generateReviewComment(suggestions: any[], prInfo: any): string {
+function generateReviewComment(suggestions: ReviewSuggestion[], prInfo: any, notes: RunNotes = {}): string {
   const totalSuggestions = suggestions.length;
   const severityCount = {
     high: suggestions.filter(s => s.severity === 'high').length,
@@ -358,6 +584,18 @@ function generateReviewComment(suggestions: any[], prInfo: any): string {
   comment += `- **🟡 Medium Severity**: ${severityCount.medium}\n`;
   comment += `- **🔵 Low Severity**: ${severityCount.low}\n\n`;
 
+  if (notes.budget) {
+    comment += `### 💸 Review Budget\n\n${notes.budget}\n`;
+  }
+
+  if (notes.skipped) {
+    comment += `### 🚫 Skipped Files\n\n${notes.skipped}\n\n`;
+  }
+
+  if (notes.failures) {
+    comment += `### ⚠️ Provider Failures\n\n${notes.failures}\n\n`;
+  }
+
   if (totalSuggestions > 0) {
     // Priority alerts for high severity issues
     if (severityCount.high > 0) {
@@ -375,19 +613,17 @@ function generateReviewComment(suggestions: any[], prInfo: any): string {
       if (!acc[file]) acc[file] = [];
       acc[file].push(suggestion);
       return acc;
-    }, {} as Record<string, any[]>);
+    }, {} as Record<string, ReviewSuggestion[]>);
 
     comment += `### 📝 Detailed Feedback by File\n\n`;
 
     Object.entries(suggestionsByFile).forEach(([file, fileSuggestions]) => {
-      comment += `<details>\n<summary><strong>📄 ${file}</strong> (${(fileSuggestions as any[]).length} suggestions)</summary>\n\n`;
-
-      const suggestions = fileSuggestions as Suggestion[];
+      comment += `<details>\n<summary><strong>📄 ${file}</strong> (${fileSuggestions.length} suggestions)</summary>\n\n`;
 
       // Sort by line number for logical flow
-      suggestions.sort((a, b) => (a.line || 0) - (b.line || 0));
+      fileSuggestions.sort((a, b) => (a.line || 0) - (b.line || 0));
 
-      suggestions.forEach((suggestion: Suggestion) => {
+      fileSuggestions.forEach(suggestion => {
         const severityEmoji = suggestion.severity === 'high' ? '🔴' :
                               suggestion.severity === 'medium' ? '🟡' : '🔵';
         const severityLabel = suggestion.severity === 'high' ? 'High' :
@@ -400,6 +636,10 @@ function generateReviewComment(suggestions: any[], prInfo: any): string {
           comment += `**Suggestion**: ${suggestion.suggestion}\n\n`;
         }
 
+        if (suggestion.providers && suggestion.providers.length > 0) {
+          comment += `${formatAgreement(suggestion)}\n\n`;
+        }
+
         comment += `---\n\n`;
       });
 
@@ -432,10 +672,95 @@ function generateReviewComment(suggestions: any[], prInfo: any): string {
     comment += `- ✅ No obvious bugs or logic errors\n\n`;
   }
 
+  if (notes.usage) {
+    comment += `\n${notes.usage}\n`;
+  }
+
   return comment;
 }
 
-function generateActionSummary(suggestions: any[], prInfo: any, reviewFocus?: string): string {
+// Longest list of skipped files in the summary; the rest are counted
+const MAX_SKIPPED_FILES_LISTED = 20;
+
+// One line per skipped file with the reason, e.g. "- `package-lock.json`: matched skip-pattern "*.json""
+function formatSkippedFiles(skipped: SkippedFile[]): string {
+  const lines = skipped.slice(0, MAX_SKIPPED_FILES_LISTED).map(file => `- \`${file.path}\`: ${file.reason}`);
+  if (skipped.length > MAX_SKIPPED_FILES_LISTED) {
+    lines.push(`- …and ${skipped.length - MAX_SKIPPED_FILES_LISTED} more`);
+  }
+  return lines.join('\n');
+}
+
+// One line per error type, e.g. "- **Rate limited** (rate-limit): 3 — OpenAI ×2, Claude ×1"
+function formatFailureSummary(failures: ProviderFailureTracker): string {
+  const counts = failures.getCountsByType();
+  return PROVIDER_ERROR_TYPES
+    .filter(type => counts[type])
+    .map(type => {
+      const providers = Object.entries(failures.getProviders(type))
+        .map(([name, count]) => `${name} ×${count}`)
+        .join(', ');
+      return `- **${PROVIDER_ERROR_LABELS[type]}** (${type}): ${counts[type]} — ${providers}`;
+    })
+    .join('\n');
+}
+
+// Run totals with a per-provider breakdown; per-chunk figures are folded away when there are several chunks
+function formatUsageFooter(usage: UsageTracker, chunkUsage: ChunkUsage[]): string {
+  const totals = usage.getTotals();
+  if (totals.responses === 0) return '';
+
+  const perProvider = Object.entries(usage.getProviderTotals())
+    .map(([name, provider]) => `${name}: ${provider.inputTokens + provider.outputTokens} tokens, ${formatCost(provider.cost)}`)
+    .join('; ');
+  const unpriced = totals.unpricedResponses > 0 ? `, ${totals.unpricedResponses} response(s) without a known price` : '';
+
+  let footer = `*💰 Usage: ${totals.inputTokens} input + ${totals.outputTokens} output tokens, ` +
+    `estimated cost ${formatCost(totals.cost)}${unpriced} (${perProvider})*\n`;
+
+  if (chunkUsage.length > 1) {
+    footer += `\n<details>\n<summary>Usage by chunk</summary>\n\n`;
+    chunkUsage.forEach(chunk => {
+      footer += `- Chunk ${chunk.chunk}: ${chunk.inputTokens} input + ${chunk.outputTokens} output tokens` +
+        (chunk.cost !== undefined ? `, ${formatCost(chunk.cost)}` : '') + `\n`;
+    });
+    footer += `\n</details>\n`;
+  }
+
+  return footer;
+}
+
+// Per-key results for providers that used their keys, masked to the last four characters.
+// Kept out of the PR comment; it only goes to the log and the review-summary output.
+function formatKeySummary(providers: IProvider[]): string {
+  const lines: string[] = [];
+
+  for (const provider of providers) {
+    const keys = (provider as IProvider & { getKeyStats?: () => ApiKeyStats[] }).getKeyStats?.() || [];
+    if (!keys.some(key => key.successCount + key.failureCount > 0)) continue;
+
+    keys.forEach(key => {
+      const state = key.disabled ? ', disabled' : key.cooldownUntil ? ', cooling down' : '';
+      const lastError = key.lastError ? `, last error: ${key.lastError}` : '';
+      lines.push(`- ${provider.name} ${key.key}: ${key.successCount} succeeded, ${key.failureCount} failed${lastError}${state}`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+// Ensemble findings name the providers that agreed and their share of the ensemble
+function formatAgreement(suggestion: Pick<ReviewSuggestion, 'providers' | 'confidence'>): string {
+  const share = suggestion.confidence !== undefined ? ` (${Math.round(suggestion.confidence * 100)}% agreement)` : '';
+  return `**Reported by**: ${(suggestion.providers || []).join(', ')}${share}`;
+}
+
+function generateActionSummary(
+  suggestions: ReviewSuggestion[],
+  prInfo: any,
+  reviewFocus?: string,
+  notes: RunNotes = {}
+): string {
   const totalSuggestions = suggestions.length;
   const severityCount = {
     high: suggestions.filter(s => s.severity === 'high').length,
@@ -468,6 +793,22 @@ function generateActionSummary(suggestions: any[], prInfo: any, reviewFocus?: st
     summary += `🎉 No issues found! Your code looks great.\n`;
   }
 
+  if (notes.budget) {
+    summary += `\n**💸 Review Budget:**\n${notes.budget}`;
+  }
+
+  if (notes.skipped) {
+    summary += `\n**🚫 Skipped Files:**\n${notes.skipped}\n`;
+  }
+
+  if (notes.failures) {
+    summary += `\n**⚠️ Provider Failures:**\n${notes.failures}\n`;
+  }
+
+  if (notes.keys) {
+    summary += `\n**🔑 API Keys:**\n${notes.keys}\n`;
+  }
+
   return summary;
 }
 
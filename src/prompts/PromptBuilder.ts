@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { ContinuationRequest, FileManifest, RepairRequest, ReviewContext } from '../providers/IProvider';
+import { renderFocusInstructions } from './ReviewFocus';
+import {
+  LATEST_PROMPT_VERSION,
+  PROMPT_TEMPLATES,
+  PromptParts,
+  PromptTemplate,
+  PromptTemplateError,
+  RESPONSE_FORMAT,
+  renderTemplate,
+  validateTemplate
+} from './PromptTemplate';
+
+/**
+ * Builds the system and user prompts for every provider from one template, so a
+ * wording change is made once and all providers are asked the same question.
+ */
+export class PromptBuilder {
+  private template: PromptTemplate;
+
+  constructor(template: PromptTemplate = PROMPT_TEMPLATES[LATEST_PROMPT_VERSION]) {
+    this.template = template;
+  }
+
+  getVersion(): string {
+    return this.template.version;
+  }
+
+  build(providerId: string, diff: string, context: ReviewContext): PromptParts {
+    const override = this.template.providers?.[providerId] || {};
+    const variables = {
+      repository: context.repository,
+      prNumber: String(context.prNumber),
+      branch: context.branch,
+      files: renderFiles(context),
+      fileCount: String(context.files.length),
+      focus: renderFocusInstructions(context),
+      guidelines: context.customInstructions?.trim() || '',
+      diff,
+      responseFormat: RESPONSE_FORMAT,
+      provider: providerId
+    };
+
+    // Follow-up requests are appended rather than templated, so custom templates get them too
+    let user = renderTemplate(override.user ?? this.template.user, variables);
+    if (context.repair) {
+      user += `\n\n${renderRepairRequest(context.repair)}`;
+    }
+    if (context.continuation) {
+      user += `\n\n${renderContinuationRequest(context.continuation)}`;
+    }
+
+    return {
+      system: renderTemplate(override.system ?? this.template.system, variables),
+      user
+    };
+  }
+}
+
+// Lists the chunk's files, with the lines it covers when the chunk has a manifest
+function renderFiles(context: ReviewContext): string {
+  if (context.manifest && context.manifest.length > 0) {
+    return context.manifest.map(renderManifestEntry).join('\n');
+  }
+  return context.files.length > 0 ? context.files.map(file => `- ${file}`).join('\n') : '- (not detected)';
+}
+
+function renderManifestEntry(entry: FileManifest): string {
+  const details: string[] = [entry.status];
+  if (entry.lines.length > 0) {
+    details.push(`lines ${entry.lines.map(range => range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`).join(', ')}`);
+  }
+  const note = entry.partial ? '; other hunks of this file are reviewed separately' : '';
+  return `- ${entry.file} (${details.join(', ')}${note})`;
+}
+
+// Longest previous answer quoted back to the model
+const MAX_REPAIR_RESPONSE_LENGTH = 4000;
+
+function renderRepairRequest(repair: RepairRequest): string {
+  const previous = repair.previousResponse.length > MAX_REPAIR_RESPONSE_LENGTH
+    ? `${repair.previousResponse.slice(0, MAX_REPAIR_RESPONSE_LENGTH)}…`
+    : repair.previousResponse;
+
+  return [
+    'Your previous answer to this request could not be used:',
+    ...repair.errors.map(error => `- ${error}`),
+    '',
+    'Previous answer:',
+    previous,
+    '',
+    'Reply again with the corrected JSON object only. Keep the findings that were valid.'
+  ].join('\n');
+}
+
+function renderContinuationRequest(continuation: ContinuationRequest): string {
+  return [
+    'Your previous answer to this request was cut off at the response length limit. These findings were received:',
+    ...(continuation.reported.length > 0
+      ? continuation.reported.map(suggestion => `- ${suggestion.file}:${suggestion.line} ${suggestion.message}`)
+      : ['- (none)']),
+    '',
+    'Reply with a complete JSON object that lists only findings not in this list, most important first.',
+    'Keep messages short and use an empty "suggestions" array if there are no more.'
+  ].join('\n');
+}
+
+export function getBuiltInTemplate(version: string): PromptTemplate {
+  const template = PROMPT_TEMPLATES[version];
+  if (!template) {
+    throw new PromptTemplateError(`Unknown prompt version "${version}" (available: ${Object.keys(PROMPT_TEMPLATES).join(', ')})`);
+  }
+  return template;
+}
+
+/**
+ * Loads a repository template file (YAML or JSON). Fields it leaves out are taken
+ * from the built-in template named by `base`, defaulting to the latest version.
+ */
+export function loadPromptTemplate(filePath: string, workspace: string = process.env.GITHUB_WORKSPACE || process.cwd()): PromptTemplate {
+  const fullPath = path.resolve(workspace, filePath);
+  if (!fs.existsSync(fullPath)) {
+    throw new PromptTemplateError(`Prompt template file not found: ${filePath}`);
+  }
+
+  let raw: unknown;
+  try {
+    const content = fs.readFileSync(fullPath, 'utf8');
+    raw = filePath.endsWith('.json') ? JSON.parse(content) : yaml.load(content, { filename: filePath });
+  } catch (error) {
+    throw new PromptTemplateError(`Prompt template ${filePath} could not be parsed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new PromptTemplateError(`Prompt template ${filePath} must be a mapping with system, user and providers keys`);
+  }
+
+  const { base, version, system, user, providers, ...unknown } = raw as Record<string, unknown>;
+  const unknownKeys = Object.keys(unknown);
+  if (unknownKeys.length > 0) {
+    throw new PromptTemplateError(`Prompt template ${filePath}: unknown key(s) ${unknownKeys.join(', ')} (allowed: version, base, system, user, providers)`);
+  }
+
+  for (const [key, value] of Object.entries({ base, version, system, user })) {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new PromptTemplateError(`Prompt template ${filePath}: ${key} must be a string`);
+    }
+  }
+
+  if (providers !== undefined && (typeof providers !== 'object' || providers === null || Array.isArray(providers))) {
+    throw new PromptTemplateError(`Prompt template ${filePath}: providers must be a mapping of provider id to overrides`);
+  }
+
+  for (const [providerId, override] of Object.entries((providers || {}) as Record<string, unknown>)) {
+    const parts = override as Record<string, unknown> | null;
+    if (typeof parts !== 'object' || parts === null || Object.values(parts).some(value => typeof value !== 'string')) {
+      throw new PromptTemplateError(`Prompt template ${filePath}: providers.${providerId} must map system and/or user to strings`);
+    }
+  }
+
+  const baseTemplate = getBuiltInTemplate((base as string | undefined) || LATEST_PROMPT_VERSION);
+  const mergedProviders: Record<string, Partial<PromptParts>> = {};
+
+  // Built-in provider tweaks only survive for the parts the repository template keeps
+  for (const [providerId, override] of Object.entries(baseTemplate.providers || {})) {
+    mergedProviders[providerId] = {
+      ...(system === undefined && override.system !== undefined ? { system: override.system } : {}),
+      ...(user === undefined && override.user !== undefined ? { user: override.user } : {})
+    };
+  }
+  for (const [providerId, override] of Object.entries((providers || {}) as Record<string, Partial<PromptParts>>)) {
+    mergedProviders[providerId] = { ...mergedProviders[providerId], ...override };
+  }
+
+  const template: PromptTemplate = {
+    version: (version as string | undefined) || `${filePath} (base ${baseTemplate.version})`,
+    system: (system as string | undefined) ?? baseTemplate.system,
+    user: (user as string | undefined) ?? baseTemplate.user,
+    providers: mergedProviders
+  };
+
+  validateTemplate(template, filePath);
+  return template;
+}
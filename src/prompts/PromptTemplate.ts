@@ -0,0 +1,133 @@
+export interface PromptParts {
+  system: string;
+  user: string;
+}
+
+export interface PromptTemplate extends PromptParts {
+  version: string;
+  // Provider-specific replacements keyed by provider id (openai, claude, gemini, ...)
+  providers?: Record<string, Partial<PromptParts>>;
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export const PROMPT_VARIABLES = [
+  'repository',
+  'prNumber',
+  'branch',
+  'files',
+  'fileCount',
+  'focus',
+  'guidelines',
+  'diff',
+  'responseFormat',
+  'provider'
+] as const;
+
+export type PromptVariable = typeof PROMPT_VARIABLES[number];
+export type PromptVariables = Record<PromptVariable, string>;
+
+export const RESPONSE_FORMAT = `Respond with a single JSON object in exactly this format:
+{
+  "summary": "Brief summary of the review",
+  "suggestions": [
+    {
+      "file": "path/to/file.ts",
+      "line": 10,
+      "severity": "low|medium|high",
+      "message": "Description of the issue",
+      "suggestion": "How to fix it (optional)"
+    }
+  ]
+}
+Use an empty "suggestions" array when there is nothing to report.`;
+
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  v1: {
+    version: 'v1',
+    system: 'You are an expert code reviewer. Analyze pull request diffs and give specific, constructive, line-level feedback.',
+    user: `Please review this pull request diff.
+
+Repository: {{repository}}
+PR Number: {{prNumber}}
+Branch: {{branch}}
+Files in this chunk ({{fileCount}}):
+{{files}}
+
+\`\`\`diff
+{{diff}}
+\`\`\`
+
+{{focus}}
+{{#guidelines}}
+
+Additional instructions from the repository maintainers:
+{{guidelines}}
+{{/guidelines}}
+
+Review requirements:
+1. Report every issue with its file path and the line number in the new version of the file.
+2. Suggest a concrete fix, with a short code example when it helps.
+3. Only report real issues; do not restate the diff or pad the review with praise.
+
+{{responseFormat}}`,
+    providers: {
+      // Claude tends to wrap JSON in explanations unless told not to
+      claude: {
+        system: 'You are an expert code reviewer. Analyze pull request diffs and give specific, constructive, line-level feedback. Reply with the JSON object only, with no text before or after it.'
+      }
+    }
+  }
+};
+
+export const LATEST_PROMPT_VERSION = 'v1';
+
+/**
+ * Renders `{{name}}` placeholders and `{{#name}}...{{/name}}` sections, which are
+ * dropped entirely when the variable is empty.
+ */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  const withSections = template.replace(
+    /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+    (_match, name: string, body: string) => (variables[name as PromptVariable] ? body : '')
+  );
+
+  return withSections.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => variables[name as PromptVariable] ?? '');
+}
+
+/**
+ * Rejects templates that reference unknown variables or never include the diff,
+ * so a broken repository template fails the run instead of producing empty reviews.
+ */
+export function validateTemplate(template: PromptTemplate, source: string): void {
+  const parts: Array<[string, string | undefined]> = [
+    ['system', template.system],
+    ['user', template.user],
+    ...Object.entries(template.providers || {}).flatMap(([provider, override]): Array<[string, string | undefined]> => [
+      [`providers.${provider}.system`, override.system],
+      [`providers.${provider}.user`, override.user]
+    ])
+  ];
+
+  for (const [field, text] of parts) {
+    if (text === undefined) continue;
+
+    for (const match of text.matchAll(/\{\{[#/]?(\w+)\}\}/g)) {
+      if (!(PROMPT_VARIABLES as readonly string[]).includes(match[1])) {
+        throw new PromptTemplateError(
+          `Prompt template ${source}: unknown variable "${match[1]}" in ${field} (available: ${PROMPT_VARIABLES.join(', ')})`
+        );
+      }
+    }
+  }
+
+  const userTemplates = [template.user, ...Object.values(template.providers || {}).map(override => override.user)];
+  if (userTemplates.some(text => text !== undefined && !text.includes('{{diff}}'))) {
+    throw new PromptTemplateError(`Prompt template ${source}: user prompt must include {{diff}}`);
+  }
+}
@@ -0,0 +1,110 @@
+import { ReviewContext } from '../providers/IProvider';
+
+export interface FocusProfile {
+  name: string;
+  title: string;
+  checklist: string[];
+}
+
+export const FOCUS_PROFILES: Record<string, FocusProfile> = {
+  security: {
+    name: 'security',
+    title: 'Security',
+    checklist: [
+      'Injection risks: SQL, shell commands, templates, path traversal, unsafe deserialization',
+      'Authentication and authorization checks on every new entry point',
+      'Secrets, tokens or personal data written to code, logs or error messages',
+      'Untrusted input used without validation, encoding or size limits',
+      'Insecure defaults: disabled TLS verification, permissive CORS, weak crypto'
+    ]
+  },
+  performance: {
+    name: 'performance',
+    title: 'Performance',
+    checklist: [
+      'Work inside loops that could be hoisted, batched or cached',
+      'Quadratic or worse algorithms on inputs that can grow',
+      'N+1 queries and sequential network calls that could run in parallel',
+      'Unbounded memory growth: large buffers, caches without eviction, leaked listeners',
+      'Blocking calls on hot or async paths'
+    ]
+  },
+  style: {
+    name: 'style',
+    title: 'Style and readability',
+    checklist: [
+      'Names that do not describe what a value or function is for',
+      'Functions doing several unrelated things or nesting too deeply',
+      'Duplicated logic that already exists elsewhere in the change',
+      'Dead code, commented-out code and leftover debugging output',
+      'Inconsistency with the conventions used in the surrounding code'
+    ]
+  },
+  correctness: {
+    name: 'correctness',
+    title: 'Correctness',
+    checklist: [
+      'Logic errors, inverted conditions and off-by-one mistakes',
+      'Unhandled null/undefined, empty collections and boundary values',
+      'Errors that are swallowed, rethrown without context or leave state half-updated',
+      'Race conditions and missing awaits in asynchronous code',
+      'Behaviour changes that callers of the modified code would not expect'
+    ]
+  },
+  tests: {
+    name: 'tests',
+    title: 'Tests',
+    checklist: [
+      'New behaviour or bug fixes without a test that would catch a regression',
+      'Tests that assert too little to fail when the code is wrong',
+      'Missing coverage of error paths and edge cases',
+      'Flaky patterns: real timers, network access, shared global state, order dependence'
+    ]
+  }
+};
+
+// Names used in older workflows and documentation that map onto a profile
+const FOCUS_ALIASES: Record<string, string> = {
+  bugs: 'correctness',
+  reliability: 'correctness',
+  testing: 'tests',
+  readability: 'style',
+  maintainability: 'style'
+};
+
+export const DEFAULT_FOCUS_AREAS = ['security', 'performance', 'style'];
+
+/**
+ * Expands focus names into profiles. Names without a predefined profile are kept
+ * as free-form focus areas so teams can still ask for things like "accessibility".
+ */
+export function resolveFocusAreas(focusAreas: string[] | undefined): FocusProfile[] {
+  const names = focusAreas && focusAreas.length > 0 ? focusAreas : DEFAULT_FOCUS_AREAS;
+  const profiles: FocusProfile[] = [];
+
+  for (const rawName of names) {
+    const name = rawName.trim().toLowerCase();
+    if (!name) continue;
+
+    const profile = FOCUS_PROFILES[FOCUS_ALIASES[name] || name] || { name, title: rawName.trim(), checklist: [] };
+    if (!profiles.some(existing => existing.name === profile.name)) {
+      profiles.push(profile);
+    }
+  }
+
+  return profiles;
+}
+
+export function renderFocusInstructions(context: ReviewContext): string {
+  const profiles = resolveFocusAreas(context.focusAreas);
+  const sections = profiles
+    .filter(profile => profile.checklist.length > 0)
+    .map(profile => `${profile.title}:\n${profile.checklist.map(item => `- ${item}`).join('\n')}`);
+
+  const freeForm = profiles.filter(profile => profile.checklist.length === 0);
+  if (freeForm.length > 0) {
+    sections.push(`Also pay attention to:\n${freeForm.map(profile => `- ${profile.title}`).join('\n')}`);
+  }
+
+  return `Focus the review on the following areas:\n\n${sections.join('\n\n')}`;
+}
@@ -1,9 +1,44 @@
 import { IProvider, ReviewContext, ReviewResult } from './IProvider';
+import { PromptBuilder } from '../prompts/PromptBuilder';
+import { PromptParts } from '../prompts/PromptTemplate';
+import { classifyError, createProviderError, ProviderErrorType, ProviderRequestError } from './ProviderError';
+
+// How long a rate-limited key is skipped when the provider sends no Retry-After
+export const DEFAULT_KEY_COOLDOWN_MS = 60000;
+
+interface KeyHealth {
+  successCount: number;
+  failureCount: number;
+  lastError?: ProviderErrorType;
+  cooldownUntil?: number;
+  // Set after an auth or quota failure; the key is not used again this run
+  disabled: boolean;
+}
+
+export interface ApiKeyStats {
+  // Masked to the last four characters
+  key: string;
+  successCount: number;
+  failureCount: number;
+  lastError?: ProviderErrorType;
+  disabled: boolean;
+  cooldownUntil?: Date;
+}
+
+/**
+ * Masks an API key down to its last four characters. Keys too short to hide
+ * anything that way are masked completely.
+ */
+export function maskApiKey(key: string): string {
+  if (!key) return '(none)';
+  return key.length >= 8 ? `****${key.slice(-4)}` : '****';
+}
 
 export abstract class BaseProvider implements IProvider {
   abstract name: string;
   protected apiKeys: string[];
   private currentKeyIndex = 0;
+  private keyHealth: KeyHealth[];
 
   constructor(apiKeys: string[]) {
     this.apiKeys = apiKeys || [];
@@ -11,20 +46,99 @@ export abstract class BaseProvider implements IProvider {
     if (this.apiKeys.length === 0) {
       throw new Error(`At least one API key is required`);
     }
+
+    this.keyHealth = this.apiKeys.map(() => ({ successCount: 0, failureCount: 0, disabled: false }));
   }
 
   abstract analyzeCode(diff: string, context: ReviewContext): Promise<ReviewResult>;
 
+  // Skips disabled keys and keys still cooling down
   protected getCurrentApiKey(): string {
+    this.currentKeyIndex = this.selectKeyIndex(this.currentKeyIndex);
     return this.apiKeys[this.currentKeyIndex];
   }
 
+  // Only moves the index; the next getCurrentApiKey() skips unusable keys, so
+  // this never throws from the finally blocks that call it
   protected advanceToNextApiKey(): void {
     if (this.hasMultipleKeys()) {
       this.currentKeyIndex = (this.currentKeyIndex + 1) % this.apiKeys.length;
     }
   }
 
+  // First healthy key from `start` on; if every key is cooling down, the one that recovers first
+  private selectKeyIndex(start: number): number {
+    const now = Date.now();
+    let soonest = -1;
+
+    for (let offset = 0; offset < this.apiKeys.length; offset++) {
+      const index = (start + offset) % this.apiKeys.length;
+      const health = this.keyHealth[index];
+      if (health.disabled) continue;
+
+      if (health.cooldownUntil === undefined || health.cooldownUntil <= now) {
+        return index;
+      }
+      if (soonest === -1 || health.cooldownUntil < (this.keyHealth[soonest].cooldownUntil ?? 0)) {
+        soonest = index;
+      }
+    }
+
+    if (soonest === -1) {
+      throw createProviderError('auth', {
+        provider: this.name,
+        detail: `all ${this.apiKeys.length} API key(s) were disabled after authentication or quota errors`
+      });
+    }
+    return soonest;
+  }
+
+  protected markKeySuccess(apiKey: string): void {
+    const health = this.getKeyHealth(apiKey);
+    if (!health) return;
+
+    health.successCount++;
+    health.cooldownUntil = undefined;
+  }
+
+  // Auth and quota failures disable the key; rate limits put it on cooldown
+  protected markKeyFailure(apiKey: string, error: unknown): void {
+    const health = this.getKeyHealth(apiKey);
+    if (!health) return;
+
+    const type = classifyError(error);
+    health.failureCount++;
+    health.lastError = type;
+
+    if (type === 'auth' || type === 'quota') {
+      health.disabled = true;
+    } else if (type === 'rate-limit') {
+      const retryAfterMs = error instanceof ProviderRequestError ? error.retryAfterMs : undefined;
+      health.cooldownUntil = Date.now() + (retryAfterMs ?? DEFAULT_KEY_COOLDOWN_MS);
+    }
+  }
+
+  private getKeyHealth(apiKey: string): KeyHealth | undefined {
+    const index = this.apiKeys.indexOf(apiKey);
+    return index === -1 ? undefined : this.keyHealth[index];
+  }
+
+  getKeyStats(): ApiKeyStats[] {
+    return this.apiKeys.map((key, index) => {
+      const health = this.keyHealth[index];
+      return {
+        key: maskApiKey(key),
+        successCount: health.successCount,
+        failureCount: health.failureCount,
+        lastError: health.lastError,
+        disabled: health.disabled,
+        cooldownUntil: health.cooldownUntil !== undefined && health.cooldownUntil > Date.now()
+          ? new Date(health.cooldownUntil)
+          : undefined
+      };
+    });
+  }
+
   protected getAvailableKeys(): string[] {
     return [...this.apiKeys];
   }
@@ -43,6 +157,13 @@ export abstract class BaseProvider implements IProvider {
   abstract getModelInfo(): { model: string; maxTokens: number };
 }
 
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
 // Factory function for creating providers with configuration
 export interface ProviderConfig {
   name: string;
@@ -51,6 +172,8 @@ export interface ProviderConfig {
   maxTokens?: number;
   temperature?: number;
   timeout?: number;
+  baseUrl?: string;
+  promptBuilder?: PromptBuilder;
 }
 
 export abstract class ConfigurableProvider extends BaseProvider {
@@ -59,24 +182,76 @@ export abstract class ConfigurableProvider extends BaseProvider {
   constructor(config: ProviderConfig) {
     super(config.apiKeys);
     this.config = config;
+    this.validateConfig();
+  }
+
+  // Reject bad settings up front so a typo fails the run instead of every API call
+  protected validateConfig(): void {
+    const { name, model, maxTokens, temperature, timeout, baseUrl } = this.config;
+
+    if (model !== undefined && model.trim().length === 0) {
+      throw new ProviderConfigError(`Invalid ${name} configuration: model cannot be empty`);
+    }
+
+    if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens <= 0)) {
+      throw new ProviderConfigError(`Invalid ${name} configuration: maxTokens must be a positive integer`);
+    }
+
+    if (temperature !== undefined && (Number.isNaN(temperature) || temperature < 0 || temperature > this.getMaxTemperature())) {
+      throw new ProviderConfigError(`Invalid ${name} configuration: temperature must be between 0 and ${this.getMaxTemperature()}`);
+    }
+
+    if (timeout !== undefined && (!Number.isInteger(timeout) || timeout <= 0)) {
+      throw new ProviderConfigError(`Invalid ${name} configuration: timeout must be a positive number of milliseconds`);
+    }
+
+    if (baseUrl !== undefined && !/^https?:\/\/[^\s]+$/.test(baseUrl)) {
+      throw new ProviderConfigError(`Invalid ${name} configuration: baseUrl must be an http(s) URL`);
+    }
   }
 
   protected getModel(): string {
     return this.config.model || this.getDefaultModel();
   }
 
+  // Switches later requests to another model, e.g. a cheaper one when the review budget is exceeded
+  setModel(model: string): void {
+    if (model.trim().length === 0) {
+      throw new ProviderConfigError(`Invalid ${this.config.name} configuration: model cannot be empty`);
+    }
+    this.config = { ...this.config, model };
+  }
+
   protected getMaxTokens(): number {
     return this.config.maxTokens || this.getDefaultMaxTokens();
   }
 
   protected getTemperature(): number {
-    return this.config.temperature || 0.3;
+    return this.config.temperature ?? 0.3;
   }
 
   protected getTimeout(): number {
     return this.config.timeout || 30000; // 30 seconds default
   }
 
+  protected getBaseUrl(): string | undefined {
+    return this.config.baseUrl;
+  }
+
+  protected getMaxTemperature(): number {
+    return 2;
+  }
+
+  // Lower-case id used to look up provider-specific prompt overrides
+  protected getProviderId(): string {
+    return this.config.name.toLowerCase();
+  }
+
+  protected buildPrompt(diff: string, context: ReviewContext): PromptParts {
+    const builder = this.config.promptBuilder || new PromptBuilder();
+    return builder.build(this.getProviderId(), diff, context);
+  }
+
   protected abstract getDefaultModel(): string;
   protected abstract getDefaultMaxTokens(): number;
 }
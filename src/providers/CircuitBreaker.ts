@@ -0,0 +1,140 @@
+import * as core from '@actions/core';
+import { ProviderErrorType } from './ProviderError';
+import { ActionInputs } from '../config/ActionInputs';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit; 0 disables the breaker
+  failureThreshold: number;
+  // How long an open circuit is skipped before one probe request is let through
+  cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 60000
+};
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date;
+}
+
+// Failures caused by the request itself say nothing about whether the provider is up
+const IGNORED_FAILURES: ProviderErrorType[] = ['content-blocked', 'bad-response'];
+
+const CIRCUIT_INPUTS: Array<[keyof CircuitBreakerOptions, string]> = [
+  ['failureThreshold', 'circuit-breaker-threshold'],
+  ['cooldownMs', 'circuit-breaker-cooldown']
+];
+
+// Reads the circuit-breaker-* inputs; both must be whole numbers
+export function readCircuitBreakerOptions(inputs: ActionInputs): CircuitBreakerOptions {
+  const options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS };
+
+  for (const [key, name] of CIRCUIT_INPUTS) {
+    const raw = inputs.getInput(name).trim();
+    if (!raw) continue;
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid input ${name}: expected a whole number of at least 0, got "${raw}"`);
+    }
+    options[key] = value;
+  }
+
+  return options;
+}
+
+/**
+ * Per-provider circuit breaker. After `failureThreshold` consecutive failures the
+ * circuit opens and the provider is skipped; once `cooldownMs` has passed a single
+ * probe is allowed (half-open). A successful probe closes the circuit, a failed
+ * one opens it again for another cooldown.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private probing = false;
+
+  constructor(
+    private label: string,
+    private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    private now: () => number = Date.now
+  ) {}
+
+  // Whether a request may be sent now; an open circuit past its cooldown lets one probe through
+  allowRequest(): boolean {
+    if (this.options.failureThreshold === 0) {
+      return true;
+    }
+
+    if (this.state === 'open' && this.now() - (this.openedAt ?? 0) >= this.options.cooldownMs) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probing) return false;
+      this.probing = true;
+      return true;
+    }
+
+    return this.state === 'closed';
+  }
+
+  recordSuccess(): void {
+    this.probing = false;
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(type: ProviderErrorType): void {
+    const wasProbe = this.probing;
+    this.probing = false;
+
+    if (this.options.failureThreshold === 0) return;
+
+    if (IGNORED_FAILURES.includes(type)) {
+      // The provider answered, so a probe that got this far counts as recovered
+      if (wasProbe) this.recordSuccess();
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)) {
+      this.openedAt = this.now();
+      this.transition('open');
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getSnapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.state === 'closed' || this.openedAt === undefined ? undefined : new Date(this.openedAt)
+    };
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+
+    if (to === 'open') {
+      core.warning(
+        `⚡ Circuit for ${this.label} ${from} → open after ${this.consecutiveFailures} consecutive failures; ` +
+        `skipping it for ${this.options.cooldownMs}ms`
+      );
+    } else {
+      core.info(`⚡ Circuit for ${this.label} ${from} → ${to}`);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { ReviewResult, ReviewSuggestion } from './IProvider';
+
+export interface EnsembleOptions {
+  // Providers asked per chunk; defaults to all of them
+  size?: number;
+  // Distinct providers that must agree before a finding stays high severity
+  quorum?: number;
+  // Findings this many lines apart or closer can be the same finding
+  lineTolerance?: number;
+  // Minimum word overlap (Jaccard index, 0-1) for two messages to be equivalent
+  similarity?: number;
+}
+
+export const DEFAULT_ENSEMBLE_OPTIONS: Required<Omit<EnsembleOptions, 'size'>> = {
+  quorum: 1,
+  lineTolerance: 3,
+  similarity: 0.3
+};
+
+export interface ProviderResult {
+  provider: string;
+  result: ReviewResult;
+}
+
+interface SuggestionGroup {
+  suggestions: ReviewSuggestion[];
+  providers: Set<string>;
+  words: Set<string>;
+}
+
+const SEVERITY_RANK: Record<ReviewSuggestion['severity'], number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Merges the results of several providers for one chunk. Equivalent suggestions
+ * (same file, nearby line, similar message) are grouped into one; its confidence is
+ * the share of responding providers that reported it, and a high-severity finding
+ * without a quorum is posted as medium.
+ */
+export function mergeEnsembleResults(results: ProviderResult[], options: EnsembleOptions = {}): ReviewResult {
+  const { quorum, lineTolerance, similarity } = { ...DEFAULT_ENSEMBLE_OPTIONS, ...options };
+  const groups: SuggestionGroup[] = [];
+
+  for (const { provider, result } of results) {
+    for (const suggestion of result.suggestions || []) {
+      const words = tokenize(suggestion.message);
+      const group = groups.find(candidate =>
+        candidate.suggestions[0].file === suggestion.file &&
+        candidate.suggestions.some(existing => Math.abs(existing.line - suggestion.line) <= lineTolerance) &&
+        jaccard(candidate.words, words) >= similarity
+      );
+
+      if (group) {
+        group.suggestions.push(suggestion);
+        group.providers.add(provider);
+        words.forEach(word => group.words.add(word));
+      } else {
+        groups.push({ suggestions: [suggestion], providers: new Set([provider]), words });
+      }
+    }
+  }
+
+  const suggestions = groups.map(group => toMergedSuggestion(group, results.length, quorum));
+  const agreement = suggestions.length > 0
+    ? suggestions.reduce((sum, suggestion) => sum + (suggestion.confidence ?? 0), 0) / suggestions.length
+    : results.reduce((sum, { result }) => sum + result.confidence, 0) / Math.max(results.length, 1);
+
+  return {
+    summary: results.map(({ provider, result }) => `**${provider}:** ${result.summary}`).join('\n\n'),
+    suggestions,
+    confidence: agreement
+  };
+}
+
+function toMergedSuggestion(group: SuggestionGroup, responded: number, quorum: number): ReviewSuggestion {
+  // The most severe report represents the group; its wording is usually the most specific
+  const representative = group.suggestions.reduce((best, current) =>
+    SEVERITY_RANK[current.severity] > SEVERITY_RANK[best.severity] ? current : best);
+  const providers = Array.from(group.providers);
+  const severity = representative.severity === 'high' && providers.length < quorum ? 'medium' : representative.severity;
+
+  return {
+    ...representative,
+    severity,
+    providers,
+    confidence: providers.length / Math.max(responded, 1)
+  };
+}
+
+function tokenize(message: string): Set<string> {
+  return new Set((message || '').toLowerCase().split(/[^a-z0-9_]+/).filter(word => word.length > 2));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  b.forEach(word => {
+    if (a.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
@@ -3,6 +3,41 @@ export interface ReviewContext {
   repository: string;
   branch: string;
   files: string[];
+  // What the chunk holds of each file; set for chunks of a parsed diff
+  manifest?: FileManifest[];
+  focusAreas?: string[];
+  customInstructions?: string;
+  // Set on the single follow-up request that asks the model to fix an invalid answer
+  repair?: RepairRequest;
+  // Set on follow-up requests for an answer that was cut off at the response length limit
+  continuation?: ContinuationRequest;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export type FileStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'binary' | 'mode-change';
+
+export interface FileManifest {
+  file: string;
+  status: FileStatus;
+  // Lines of the new file covered by the chunk's hunks
+  lines: LineRange[];
+  // The file's other hunks are in other chunks
+  partial: boolean;
+}
+
+export interface RepairRequest {
+  // Validation errors of the previous answer
+  errors: string[];
+  previousResponse: string;
+}
+
+export interface ContinuationRequest {
+  // Findings already received, which the model should not repeat
+  reported: ReviewSuggestion[];
 }
 
 export interface ReviewSuggestion {
@@ -11,12 +46,28 @@ export interface ReviewSuggestion {
   severity: 'low' | 'medium' | 'high';
   message: string;
   suggestion?: string;
+  // Set by ensemble mode: providers that reported this finding and their share of the ensemble
+  providers?: string[];
+  confidence?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // USD; set by ProviderManager when the model's price is known
+  cost?: number;
 }
 
 export interface ReviewResult {
   summary: string;
   suggestions: ReviewSuggestion[];
   confidence: number;
+  // Token counts reported by the provider API, when it reports them
+  usage?: TokenUsage;
+  // Set when the answer held no readable JSON; the summary is then the raw text
+  parseError?: string;
+  // The answer hit the response length limit; suggestions hold what could be recovered
+  truncated?: boolean;
 }
 
 export interface IProvider {
@@ -0,0 +1,91 @@
+import { estimateTokens } from './ModelPricing';
+import { PROMPT_OVERHEAD_TOKENS } from '../diff/ReviewBudget';
+
+// Context windows in tokens, prompt and response together; matched by longest
+// prefix like the price table
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4': 8192,
+  'gpt-4-32k': 32768,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-5': 400000,
+  'gpt-3.5-turbo': 16385,
+  'o1': 200000,
+  'o3': 200000,
+  'o4': 200000,
+  'claude-': 200000,
+  'gemini-pro': 32760,
+  'gemini-1.0-pro': 32760,
+  'gemini-1.5-pro': 2097152,
+  'gemini-1.5-flash': 1048576,
+  'gemini-2.0-flash': 1048576,
+  'gemini-2.5': 1048576
+};
+
+// Assumed for models missing from the table, such as Azure deployment names or
+// self-hosted models; small enough for most of them
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// A chunk is never planned smaller than this, however little room a model leaves
+export const MIN_CHUNK_TOKENS = 256;
+
+export interface CapacityProfile {
+  model: string;
+  contextWindow: number;
+  // Reserved for the system prompt, instructions and PR context
+  promptTokens: number;
+  // Reserved for the answer, the provider's max-tokens
+  responseTokens: number;
+  // What is left for the diff
+  chunkTokens: number;
+}
+
+export function findContextWindow(model: string, windows: Record<string, number> = MODEL_CONTEXT_WINDOWS): number | undefined {
+  // Gemini model names may carry a models/ prefix
+  const normalized = model.toLowerCase().replace(/^models\//, '');
+  const match = Object.keys(windows)
+    .filter(prefix => normalized.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? windows[match] : undefined;
+}
+
+/**
+ * Works out how much diff fits into one request to `model`: its context window
+ * minus room for the prompt and for an answer of `maxTokens`.
+ */
+export function capacityProfile(
+  model: string,
+  maxTokens: number,
+  windows: Record<string, number> = MODEL_CONTEXT_WINDOWS,
+  instructions: string = ''
+): CapacityProfile {
+  const contextWindow = findContextWindow(model, windows) || DEFAULT_CONTEXT_WINDOW;
+  const promptTokens = PROMPT_OVERHEAD_TOKENS + estimateTokens(instructions);
+  return {
+    model,
+    contextWindow,
+    promptTokens,
+    responseTokens: maxTokens,
+    chunkTokens: Math.max(MIN_CHUNK_TOKENS, contextWindow - promptTokens - maxTokens)
+  };
+}
+
+/**
+ * Parses `model=tokens` entries such as `llama3=8192`. Entries are matched by
+ * prefix like the built-in table.
+ */
+export function parseContextWindows(entries: string[]): Record<string, number> {
+  const windows: Record<string, number> = {};
+
+  for (const entry of entries) {
+    const match = /^([^=\s]+)\s*=\s*(\d+)$/.exec(entry.trim());
+    const tokens = Number(match?.[2]);
+    if (!match || tokens <= 0) {
+      throw new Error(`Invalid model-context-windows entry "${entry}": expected "model=tokens"`);
+    }
+    windows[match[1].toLowerCase()] = tokens;
+  }
+
+  return windows;
+}
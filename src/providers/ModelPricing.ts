@@ -0,0 +1,73 @@
+export interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// Public list prices; models are matched by longest prefix so dated snapshots
+// such as gpt-4o-2024-08-06 resolve to their family
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 }
+};
+
+export function findModelPrice(model: string, prices: Record<string, ModelPrice> = MODEL_PRICES): ModelPrice | undefined {
+  const normalized = model.toLowerCase();
+  const match = Object.keys(prices)
+    .filter(prefix => normalized.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+}
+
+// Rough token estimate used before a request is made; about four characters per token
+export function estimateTokens(text: string): number {
+  return estimateTokensForLength(text.length);
+}
+
+// The same estimate for text of `length` characters that has not been built yet
+export function estimateTokensForLength(length: number): number {
+  return Math.ceil(length / 4);
+}
+
+/**
+ * Parses `model=input/output` entries, in USD per million tokens, such as
+ * `gpt-4o=2.5/10`. Entries are matched by prefix like the built-in table.
+ */
+export function parseModelPrices(entries: string[]): Record<string, ModelPrice> {
+  const prices: Record<string, ModelPrice> = {};
+
+  for (const entry of entries) {
+    const match = /^([^=\s]+)\s*=\s*([\d.]+)\s*\/\s*([\d.]+)$/.exec(entry.trim());
+    const input = Number(match?.[2]);
+    const output = Number(match?.[3]);
+    if (!match || !Number.isFinite(input) || !Number.isFinite(output)) {
+      throw new Error(`Invalid model-prices entry "${entry}": expected "model=input/output" in USD per million tokens`);
+    }
+    prices[match[1].toLowerCase()] = { input, output };
+  }
+
+  return prices;
+}
+
+export function calculateCost(inputTokens: number, outputTokens: number, price: ModelPrice): number {
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,367 @@
+type HeaderSource = Headers | Record<string, string | string[] | undefined> | undefined;
+
+export const PROVIDER_ERROR_TYPES = [
+  'auth',
+  'rate-limit',
+  'quota',
+  'timeout',
+  'content-blocked',
+  'bad-response',
+  'network',
+  'server',
+  'unknown'
+] as const;
+
+export type ProviderErrorType = typeof PROVIDER_ERROR_TYPES[number];
+
+export const PROVIDER_ERROR_LABELS: Record<ProviderErrorType, string> = {
+  auth: 'Authentication failed',
+  'rate-limit': 'Rate limited',
+  quota: 'Quota exceeded',
+  timeout: 'Request timed out',
+  'content-blocked': 'Content blocked',
+  'bad-response': 'Invalid response',
+  network: 'Network error',
+  server: 'Server error',
+  unknown: 'Request failed'
+};
+
+// Failures worth retrying: the same request may succeed a moment later
+const RETRYABLE_TYPES: ProviderErrorType[] = ['rate-limit', 'timeout', 'network', 'server'];
+
+export interface ProviderErrorDetails {
+  provider: string;
+  status?: number;
+  retryAfterMs?: number;
+  retryable?: boolean;
+  // Redacted excerpt of the underlying error, for diagnosis
+  detail?: string;
+}
+
+/**
+ * Base class of all provider failures. Messages never contain the raw SDK error;
+ * `detail` carries a redacted excerpt, and the HTTP status and Retry-After hint are
+ * kept so that the retry layer and the run summary can act on them.
+ */
+export class ProviderRequestError extends Error {
+  type: ProviderErrorType;
+  provider: string;
+  status?: number;
+  retryAfterMs?: number;
+  retryable: boolean;
+  detail?: string;
+
+  constructor(message: string, details: ProviderErrorDetails, type: ProviderErrorType = 'unknown') {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.type = type;
+    this.provider = details.provider;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.detail = details.detail;
+    this.retryable = details.retryable ?? (type === 'unknown' ? isRetryableStatus(details.status) : RETRYABLE_TYPES.includes(type));
+  }
+}
+
+export class AuthError extends ProviderRequestError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details, 'auth');
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends ProviderRequestError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details, 'rate-limit');
+    this.name = 'RateLimitError';
+  }
+}
+
+export class QuotaExceededError extends ProviderRequestError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details, 'quota');
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class ProviderTimeoutError extends ProviderRequestError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details, 'timeout');
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+export class ContentBlockedError extends ProviderRequestError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details, 'content-blocked');
+    this.name = 'ContentBlockedError';
+  }
+}
+
+export class BadResponseError extends ProviderRequestError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details, 'bad-response');
+    this.name = 'BadResponseError';
+  }
+}
+
+export class NetworkError extends ProviderRequestError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details, 'network');
+    this.name = 'NetworkError';
+  }
+}
+
+export class ServerError extends ProviderRequestError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details, 'server');
+    this.name = 'ServerError';
+  }
+}
+
+const ERROR_CLASSES: Partial<Record<ProviderErrorType, new (message: string, details: ProviderErrorDetails) => ProviderRequestError>> = {
+  auth: AuthError,
+  'rate-limit': RateLimitError,
+  quota: QuotaExceededError,
+  timeout: ProviderTimeoutError,
+  'content-blocked': ContentBlockedError,
+  'bad-response': BadResponseError,
+  network: NetworkError,
+  server: ServerError
+};
+
+// Builds the typed error with the standard "<Provider> API error: <label> (HTTP n): detail" message
+export function createProviderError(type: ProviderErrorType, details: ProviderErrorDetails): ProviderRequestError {
+  const message = `${details.provider} API error: ${PROVIDER_ERROR_LABELS[type]}` +
+    (details.status ? ` (HTTP ${details.status})` : '') +
+    (details.detail ? `: ${details.detail}` : '');
+  const ErrorClass = ERROR_CLASSES[type];
+  return ErrorClass ? new ErrorClass(message, details) : new ProviderRequestError(message, details);
+}
+
+// Error names used by the SDKs and fetch for failures before any response arrived
+const TIMEOUT_ERROR_NAMES = ['APIConnectionTimeoutError', 'TimeoutError', 'AbortError'];
+const NETWORK_ERROR_NAMES = ['APIConnectionError', 'FetchError'];
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+export function isRetryableStatus(status: number | undefined): boolean {
+  return status === 408 || status === 409 || status === 429 || (status !== undefined && status >= 500);
+}
+
+interface ErrorSource {
+  status?: unknown;
+  name?: string;
+  code?: string | null;
+  message?: string;
+  type?: string;
+  cause?: { code?: string; name?: string };
+  headers?: HeaderSource;
+  error?: { code?: string; type?: string; error?: { type?: string } };
+  errorDetails?: Array<{ '@type'?: string; retryDelay?: string }>;
+}
+
+/**
+ * Sorts an SDK, fetch or HTTP failure into the error taxonomy. Provider-specific
+ * codes are checked first, then the HTTP status, then transport error names.
+ */
+export function classifyError(error: unknown): ProviderErrorType {
+  if (error instanceof ProviderRequestError) {
+    return error.type;
+  }
+
+  const source = (error || {}) as ErrorSource;
+  const status = typeof source.status === 'number' ? source.status : undefined;
+  const code = source.code || source.error?.code || '';
+  // Anthropic nests its error kind: { type: 'error', error: { type: 'rate_limit_error' } }
+  const kind = source.error?.error?.type || source.error?.type || source.type || '';
+  const message = (source.message || '').toLowerCase();
+
+  if (status === 401 || status === 403 || kind === 'authentication_error' || kind === 'permission_error') {
+    return 'auth';
+  }
+  if (status === 402 || code === 'insufficient_quota' || /billing|credit balance|insufficient_quota/.test(message)) {
+    return 'quota';
+  }
+  if (status === 429 || kind === 'rate_limit_error') {
+    return 'rate-limit';
+  }
+  if (code === 'content_filter' || /blocked due to|content_filter|safety/.test(message)) {
+    return 'content-blocked';
+  }
+  if (status === 408 || status === 504 || TIMEOUT_ERROR_NAMES.includes(source.name || '') || TIMEOUT_ERROR_NAMES.includes(source.cause?.name || '')) {
+    return 'timeout';
+  }
+  if (status !== undefined && status >= 500) {
+    return 'server';
+  }
+  if (
+    status === undefined && (
+      NETWORK_ERROR_NAMES.includes(source.name || '') ||
+      NETWORK_ERROR_CODES.includes(code) ||
+      NETWORK_ERROR_CODES.includes(source.cause?.code || '') ||
+      // fetch reports every network failure as this TypeError
+      (error instanceof TypeError && error.message === 'fetch failed')
+    )
+  ) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+/**
+ * Converts an SDK or fetch error into a typed ProviderRequestError. The original
+ * message is only kept as a redacted, shortened `detail`.
+ */
+export function toProviderError(error: unknown, provider: string): ProviderRequestError {
+  if (error instanceof ProviderRequestError) {
+    return error;
+  }
+
+  const source = (error || {}) as ErrorSource;
+  const status = typeof source.status === 'number' ? source.status : undefined;
+  // Gemini sends its hint as a RetryInfo detail ("30s") instead of a header
+  const retryInfo = source.errorDetails?.find(detail => detail['@type']?.endsWith('RetryInfo'));
+
+  const type = classifyError(error);
+
+  return createProviderError(type, {
+    provider,
+    status,
+    retryAfterMs: getRetryAfterMs(source.headers, type === 'rate-limit') ?? parseDuration(retryInfo?.retryDelay),
+    detail: source.message ? redactSecrets(source.message) : undefined
+  });
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return toProviderError(error, 'provider').retryable;
+}
+
+const SECRET_PATTERNS: RegExp[] = [
+  /sk-[A-Za-z0-9_-]{8,}/g,
+  /AIza[0-9A-Za-z_-]{20,}/g,
+  /Bearer\s+[A-Za-z0-9._~+/=-]+/gi,
+  /((?:api[-_]?key|key|token|access_token)=)[^&\s"']+/gi,
+  /gh[pousr]_[A-Za-z0-9]{20,}/g
+];
+
+// Keeps error text diagnostic while removing anything shaped like a credential
+export function redactSecrets(text: string, maxLength: number = 200): string {
+  let redacted = text;
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, (match, prefix) => typeof prefix === 'string' ? `${prefix}[REDACTED]` : '[REDACTED]');
+  }
+  redacted = redacted.replace(/\s+/g, ' ').trim();
+  return redacted.length > maxLength ? `${redacted.slice(0, maxLength)}…` : redacted;
+}
+
+/**
+ * Reads how long the server asked us to wait: `retry-after-ms`, `retry-after`
+ * (seconds or an HTTP date) and, for rate-limit errors only, OpenAI's
+ * `x-ratelimit-reset-*` durations and Anthropic's `anthropic-ratelimit-*-reset`
+ * timestamps. Those are sent with every response and say nothing about when a
+ * server error clears.
+ */
+export function getRetryAfterMs(headers: HeaderSource, rateLimited: boolean = false, now: number = Date.now()): number | undefined {
+  const read = (name: string): string | undefined => {
+    if (!headers) return undefined;
+    if (typeof (headers as Headers).get === 'function') {
+      return (headers as Headers).get(name) ?? undefined;
+    }
+    const value = (headers as Record<string, string | string[] | undefined>)[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const milliseconds = Number(read('retry-after-ms'));
+  if (Number.isFinite(milliseconds) && milliseconds > 0) {
+    return milliseconds;
+  }
+
+  const retryAfter = read('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  if (!rateLimited) {
+    return undefined;
+  }
+
+  // Both limits have to reset before the request can go through
+  const longest = (values: (number | undefined)[]): number | undefined => {
+    const known = values.filter((value): value is number => value !== undefined);
+    return known.length > 0 ? Math.max(...known) : undefined;
+  };
+
+  const resetDuration = longest([
+    parseDuration(read('x-ratelimit-reset-requests')),
+    parseDuration(read('x-ratelimit-reset-tokens'))
+  ]);
+  if (resetDuration !== undefined) {
+    return resetDuration;
+  }
+
+  const resetAt = (name: string): number | undefined => {
+    const date = Date.parse(read(name) || '');
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+  };
+  return longest([resetAt('anthropic-ratelimit-requests-reset'), resetAt('anthropic-ratelimit-tokens-reset')]);
+}
+
+// Parses Go-style durations as sent by OpenAI and Google, e.g. "6m0s", "1.5s", "20ms"
+function parseDuration(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  let total = 0;
+  let matched = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(value)) !== null) {
+    total += Number(match[1]) * units[match[2]];
+    matched += match[0];
+  }
+
+  return matched.length > 0 && matched === value.trim() ? Math.round(total) : undefined;
+}
+
+/**
+ * Counts provider failures by error type and provider for the run summary.
+ */
+export class ProviderFailureTracker {
+  private counts: Map<ProviderErrorType, Map<string, number>> = new Map();
+
+  record(providerName: string, error: unknown): ProviderErrorType {
+    const type = classifyError(error);
+    const byProvider = this.counts.get(type) || new Map<string, number>();
+    byProvider.set(providerName, (byProvider.get(providerName) || 0) + 1);
+    this.counts.set(type, byProvider);
+    return type;
+  }
+
+  getCountsByType(): Partial<Record<ProviderErrorType, number>> {
+    const totals: Partial<Record<ProviderErrorType, number>> = {};
+    for (const type of PROVIDER_ERROR_TYPES) {
+      const byProvider = this.counts.get(type);
+      if (byProvider) {
+        totals[type] = Array.from(byProvider.values()).reduce((sum, count) => sum + count, 0);
+      }
+    }
+    return totals;
+  }
+
+  // Providers and their failure counts for one type, e.g. { OpenAI: 2 }
+  getProviders(type: ProviderErrorType): Record<string, number> {
+    return Object.fromEntries(this.counts.get(type) || new Map());
+  }
+
+  getTotal(): number {
+    return Object.values(this.getCountsByType()).reduce((sum, count) => sum + (count || 0), 0);
+  }
+}
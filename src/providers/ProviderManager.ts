@@ -1,23 +1,73 @@
-import { IProvider, ReviewContext, ReviewResult } from './IProvider';
+import { IProvider, ReviewContext, ReviewResult, TokenUsage } from './IProvider';
 import * as core from '@actions/core';
+import { EnsembleOptions, mergeEnsembleResults, ProviderResult } from './Ensemble';
+import { RoundRobinStrategy, RoutingDetails, RoutingStrategy } from './RoutingStrategy';
+import { DEFAULT_RETRY_OPTIONS, RetryBudget, RetryOptions, withRetry } from './RetryPolicy';
+import { ProviderErrorType, ProviderFailureTracker } from './ProviderError';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitSnapshot, DEFAULT_CIRCUIT_BREAKER_OPTIONS } from './CircuitBreaker';
+import { sumUsage, UsageTracker } from './UsageTracker';
+import { validateReviewResult, ValidationReport } from './ResponseValidator';
+import { combineSplitResults, MAX_CONTINUATIONS, MAX_SPLIT_DEPTH, mergeContinuation, TruncationAction } from './Truncation';
+import { capacityProfile, MODEL_CONTEXT_WINDOWS } from './ModelCapacity';
+import { estimateTokens } from './ModelPricing';
+import { ChunkedDiff, DiffProcessor } from '../diff/DiffProcessor';
 
 export interface ProviderStats {
   providerName: string;
   usageCount: number;
   successCount: number;
   failureCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  // USD, for responses whose model has a known price
+  cost: number;
   lastUsed: Date;
+  lastFailure?: Date;
+  failuresByType: Partial<Record<ProviderErrorType, number>>;
+  routing?: RoutingDetails;
+  circuit?: CircuitSnapshot;
+}
+
+export interface ProviderManagerOptions {
+  // When set, every chunk goes to several providers and their findings are merged
+  ensemble?: EnsembleOptions;
+  // Decides which provider is tried first for each chunk; round-robin by default
+  routing?: RoutingStrategy;
+  retry?: RetryOptions;
+  // Collects failures by error type; pass one in to report them after the run
+  failures?: ProviderFailureTracker;
+  circuitBreaker?: CircuitBreakerOptions;
+  // Adds up tokens and cost per provider; pass one in to report them after the run
+  usage?: UsageTracker;
+  // What to do when an answer is cut off at the response length limit; none by default
+  truncation?: TruncationAction;
+  // Context windows by model prefix; a chunk too large for a provider's model is split for it
+  contextWindows?: Record<string, number>;
 }
 
 export class ProviderManager {
   private providers: IProvider[];
-  private currentIndex = 0;
+  private routing: RoutingStrategy;
+  private retry: RetryOptions;
   private usageStats: Map<string, ProviderStats> = new Map();
   private failFast: boolean;
+  private ensemble?: EnsembleOptions;
+  private failures: ProviderFailureTracker;
+  private circuits: Map<string, CircuitBreaker> = new Map();
+  private usage: UsageTracker;
+  private truncation: TruncationAction;
+  private contextWindows: Record<string, number>;
 
-  constructor(providers: IProvider[], failFast: boolean = false) {
+  constructor(providers: IProvider[], failFast: boolean = false, options: ProviderManagerOptions = {}) {
     this.providers = providers.filter(p => p !== undefined);
     this.failFast = failFast;
+    this.ensemble = options.ensemble;
+    this.routing = options.routing || new RoundRobinStrategy();
+    this.retry = options.retry || DEFAULT_RETRY_OPTIONS;
+    this.failures = options.failures || new ProviderFailureTracker();
+    this.usage = options.usage || new UsageTracker();
+    this.truncation = options.truncation || 'none';
+    this.contextWindows = options.contextWindows || MODEL_CONTEXT_WINDOWS;
 
     if (this.providers.length === 0) {
       throw new Error('No valid providers provided');
@@ -25,39 +75,59 @@ export class ProviderManager {
 
     // Initialize stats
     this.providers.forEach(provider => {
+      this.circuits.set(provider.name, new CircuitBreaker(provider.name, options.circuitBreaker || DEFAULT_CIRCUIT_BREAKER_OPTIONS));
       this.usageStats.set(provider.name, {
         providerName: provider.name,
         usageCount: 0,
         successCount: 0,
         failureCount: 0,
-        lastUsed: new Date()
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+        lastUsed: new Date(),
+        failuresByType: {}
       });
     });
   }
 
   async analyzeCode(diff: string, context: ReviewContext): Promise<ReviewResult> {
-    const attempts = this.providers.length;
+    const budget = new RetryBudget(this.retry.budget);
+    try {
+      return this.ensemble
+        ? await this.analyzeWithEnsemble(diff, context, this.ensemble, budget)
+        : await this.analyzeWithFailover(diff, context, budget);
+    } finally {
+      if (budget.getUsed() > 0) {
+        core.info(`🔁 Chunk used ${budget.getUsed()} of ${this.retry.budget} retries`);
+      }
+    }
+  }
+
+  private async analyzeWithFailover(diff: string, context: ReviewContext, budget: RetryBudget): Promise<ReviewResult> {
     let lastError: Error | null = null;
+    const skipped: string[] = [];
 
-    for (let i = 0; i < attempts; i++) {
-      const provider = this.providers[this.currentIndex];
-      this.currentIndex = (this.currentIndex + 1) % this.providers.length;
+    for (const provider of this.routing.order(this.providers, diff, this.usageStats)) {
+      if (!this.getCircuit(provider).allowRequest()) {
+        skipped.push(provider.name);
+        continue;
+      }
 
       const stats = this.usageStats.get(provider.name)!;
       stats.usageCount++;
       stats.lastUsed = new Date();
 
       try {
-        const result = await provider.analyzeCode(diff, context);
+        const result = await this.callProvider(provider, diff, context, budget);
         stats.successCount++;
+        this.getCircuit(provider).recordSuccess();
+        this.recordUsage(provider, stats, result);
 
         core.info(`✅ ${provider.name} completed successfully`);
         return result;
       } catch (error) {
         lastError = error as Error;
-        stats.failureCount++;
-
-        core.warning(`❌ Provider ${provider.name} failed: ${error}`);
+        this.recordFailure(provider, stats, error);
 
         if (this.failFast) {
           throw new Error(`Provider ${provider.name} failed: ${error}`);
@@ -66,8 +136,225 @@ export class ProviderManager {
       }
     }
 
+    if (skipped.length > 0) {
+      core.info(`⏭️ Skipped ${skipped.join(', ')}: circuit open`);
+    }
+
     // All providers failed
-    throw lastError || new Error('All providers failed to analyze the code');
+    throw lastError || new Error(skipped.length > 0
+      ? `All providers are unavailable: circuit open for ${skipped.join(', ')}`
+      : 'All providers failed to analyze the code');
+  }
+
+  // Queries the first `size` providers in routing order whose circuits allow it, all at once
+  private async analyzeWithEnsemble(
+    diff: string,
+    context: ReviewContext,
+    options: EnsembleOptions,
+    budget: RetryBudget
+  ): Promise<ReviewResult> {
+    const size = Math.min(options.size || this.providers.length, this.providers.length);
+    const selected: IProvider[] = [];
+    for (const provider of this.routing.order(this.providers, diff, this.usageStats)) {
+      // Checked one at a time: allowRequest hands out the single half-open probe
+      if (selected.length < size && this.getCircuit(provider).allowRequest()) {
+        selected.push(provider);
+      }
+    }
+
+    if (selected.length === 0) {
+      throw new Error(`All providers are unavailable: circuit open for ${this.providers.map(p => p.name).join(', ')}`);
+    }
+
+    const selectedStats = selected.map(provider => this.usageStats.get(provider.name) as ProviderStats);
+    const settled = await Promise.allSettled(selected.map((provider, i) => {
+      selectedStats[i].usageCount++;
+      selectedStats[i].lastUsed = new Date();
+      return this.callProvider(provider, diff, context, budget);
+    }));
+
+    const results: ProviderResult[] = [];
+    let lastError: Error | null = null;
+
+    settled.forEach((outcome, i) => {
+      const provider = selected[i];
+      const stats = selectedStats[i];
+      if (outcome.status === 'fulfilled') {
+        stats.successCount++;
+        this.getCircuit(provider).recordSuccess();
+        this.recordUsage(provider, stats, outcome.value);
+        results.push({ provider: provider.name, result: outcome.value });
+      } else {
+        lastError = outcome.reason as Error;
+        this.recordFailure(provider, stats, outcome.reason);
+      }
+    });
+
+    if (lastError && (this.failFast || results.length === 0)) {
+      throw this.failFast ? new Error(`Ensemble provider failed: ${lastError}`) : lastError;
+    }
+
+    const merged = mergeEnsembleResults(results, options);
+    merged.usage = sumUsage(results.map(({ result }) => result.usage));
+    core.info(`✅ Ensemble of ${results.length}/${size} providers returned ${merged.suggestions.length} merged suggestions`);
+    return merged;
+  }
+
+  private recordFailure(provider: IProvider, stats: ProviderStats, error: unknown): void {
+    const type = this.failures.record(provider.name, error);
+    this.getCircuit(provider).recordFailure(type);
+    stats.failureCount++;
+    stats.failuresByType[type] = (stats.failuresByType[type] || 0) + 1;
+    stats.lastFailure = new Date();
+
+    core.warning(`❌ Provider ${provider.name} failed [${type}]: ${error}`);
+  }
+
+  // Prices the response's token usage and adds it to the provider's stats
+  private recordUsage(provider: IProvider, stats: ProviderStats, result: ReviewResult): void {
+    if (!result.usage) return;
+
+    const model = (provider as IProvider & { getModelInfo?: () => { model: string } | undefined }).getModelInfo?.()?.model;
+    const cost = this.usage.record(provider.name, model, result.usage);
+    result.usage = { ...result.usage, cost };
+
+    stats.inputTokens += result.usage.inputTokens;
+    stats.outputTokens += result.usage.outputTokens;
+    stats.cost += cost || 0;
+  }
+
+  private getCircuit(provider: IProvider): CircuitBreaker {
+    return this.circuits.get(provider.name) as CircuitBreaker;
+  }
+
+  private async callProvider(
+    provider: IProvider,
+    diff: string,
+    context: ReviewContext,
+    budget: RetryBudget,
+    depth: number = 0
+  ): Promise<ReviewResult> {
+    const info = (provider as IProvider & { getModelInfo?: () => { model: string; maxTokens: number } | undefined }).getModelInfo?.();
+    if (info) {
+      const profile = capacityProfile(info.model, info.maxTokens, this.contextWindows, context.customInstructions);
+      if (estimateTokens(diff) > profile.chunkTokens) {
+        const parts = new DiffProcessor(profile.chunkTokens).chunkDiff(diff);
+        if (parts.length > 1) {
+          core.info(`📏 Chunk is larger than ${profile.chunkTokens} tokens, the room left in ${info.model}'s ${profile.contextWindow}-token context; reviewing it in ${parts.length} parts with ${provider.name}`);
+          return combineSplitResults(await this.reviewParts(provider, parts, context, budget, depth));
+        }
+      }
+    }
+
+    const result = await this.requestReview(provider, diff, context, budget);
+    return result.truncated ? this.handleTruncation(provider, diff, context, budget, result, depth) : result;
+  }
+
+  /**
+   * Calls the provider with retries and validates its answer. An answer that is
+   * unreadable or mostly invalid gets one repair request listing the problems;
+   * if that does not help, the valid part of the first answer is used.
+   */
+  private async requestReview(provider: IProvider, diff: string, context: ReviewContext, budget: RetryBudget): Promise<ReviewResult> {
+    const call = (requestContext: ReviewContext) => withRetry(() => provider.analyzeCode(diff, requestContext), {
+      label: provider.name,
+      options: this.retry,
+      budget
+    });
+
+    const first = await call(context);
+    const report = this.validate(provider, first);
+    // A repair of a cut-off answer would be cut off the same way; the truncation action handles it
+    if (!report.needsRepair || first.truncated) {
+      return report.result;
+    }
+
+    core.info(`🔧 Asking ${provider.name} to repair its response (${report.errors.length} problem(s))`);
+    let repairUsage: TokenUsage | undefined;
+    try {
+      const repaired = await call({ ...context, repair: { errors: report.errors, previousResponse: describeResponse(first) } });
+      repairUsage = repaired.usage;
+      const repairedReport = this.validate(provider, repaired);
+      if (!repairedReport.needsRepair) {
+        return { ...repairedReport.result, usage: sumUsage([first.usage, repaired.usage]) };
+      }
+      core.warning(`${provider.name} repair response is still invalid; keeping ${report.result.suggestions.length} valid suggestion(s) from the first response`);
+    } catch (error) {
+      core.warning(`${provider.name} repair request failed: ${error}`);
+    }
+
+    return { ...report.result, usage: sumUsage([first.usage, repairUsage]) };
+  }
+
+  /**
+   * Handles an answer cut off at the response length limit. `continue` asks again for
+   * the findings not yet reported; `split` reviews the halves of the chunk separately.
+   * Either way the complete suggestions of the cut-off answer are never lost.
+   */
+  private async handleTruncation(
+    provider: IProvider,
+    diff: string,
+    context: ReviewContext,
+    budget: RetryBudget,
+    result: ReviewResult,
+    depth: number
+  ): Promise<ReviewResult> {
+    core.warning(`✂️ ${provider.name} response was cut off at its max-tokens limit; recovered ${result.suggestions.length} complete suggestion(s)`);
+
+    if (this.truncation === 'continue') {
+      let merged = result;
+      for (let round = 1; round <= MAX_CONTINUATIONS && merged.truncated; round++) {
+        core.info(`↪️ Asking ${provider.name} to continue its review (${round}/${MAX_CONTINUATIONS})`);
+        try {
+          const next = await this.requestReview(provider, diff, { ...context, continuation: { reported: merged.suggestions } }, budget);
+          merged = mergeContinuation(merged, next);
+        } catch (error) {
+          core.warning(`${provider.name} continuation failed: ${error}`);
+          break;
+        }
+      }
+      return merged;
+    }
+
+    if (this.truncation === 'split' && depth < MAX_SPLIT_DEPTH) {
+      const parts = new DiffProcessor(Math.ceil(estimateTokens(diff) / 2)).chunkDiff(diff);
+      if (parts.length > 1) {
+        core.info(`✂️ Splitting the chunk into ${parts.length} parts for ${provider.name}`);
+        try {
+          return combineSplitResults(await this.reviewParts(provider, parts, context, budget, depth + 1), result);
+        } catch (error) {
+          core.warning(`${provider.name} review of the split chunk failed: ${error}`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Reviews the parts of a split chunk one after another with the same provider
+  private async reviewParts(
+    provider: IProvider,
+    parts: ChunkedDiff[],
+    context: ReviewContext,
+    budget: RetryBudget,
+    depth: number
+  ): Promise<ReviewResult[]> {
+    const results: ReviewResult[] = [];
+    for (const part of parts) {
+      const partContext = part.manifest
+        ? { ...context, files: part.files, manifest: part.manifest }
+        : { ...context, files: part.files.length > 0 ? part.files : context.files };
+      results.push(await this.callProvider(provider, part.content, partContext, budget, depth));
+    }
+    return results;
+  }
+
+  private validate(provider: IProvider, result: ReviewResult): ValidationReport {
+    const report = validateReviewResult(result);
+    report.dropped.forEach(({ index, reason }) => {
+      core.warning(`Dropped suggestion ${index + 1} from ${provider.name}: ${reason}`);
+    });
+    return report;
   }
 
   getAvailableProviders(): string[] {
@@ -83,7 +370,20 @@ export class ProviderManager {
   }
 
   getDetailedStats(): ProviderStats[] {
-    return Array.from(this.usageStats.values());
+    return this.providers.map(provider => ({
+      ...(this.usageStats.get(provider.name) as ProviderStats),
+      routing: this.routing.describe(provider),
+      circuit: this.getCircuit(provider).getSnapshot()
+    }));
+  }
+
+  // Failure counts by error type across all providers
+  getFailureSummary(): Partial<Record<ProviderErrorType, number>> {
+    return this.failures.getCountsByType();
+  }
+
+  getRoutingStrategy(): string {
+    return this.routing.name;
   }
 
   resetStats(): void {
@@ -91,6 +391,16 @@ export class ProviderManager {
       stats.usageCount = 0;
       stats.successCount = 0;
       stats.failureCount = 0;
+      stats.inputTokens = 0;
+      stats.outputTokens = 0;
+      stats.cost = 0;
+      stats.lastFailure = undefined;
+      stats.failuresByType = {};
     });
   }
 }
+
+// The previous answer as the model should see it: raw text when it was unreadable, JSON otherwise
+function describeResponse(result: ReviewResult): string {
+  return result.parseError ? result.summary : JSON.stringify({ summary: result.summary, suggestions: result.suggestions });
+}
@@ -0,0 +1,109 @@
+import * as path from 'path';
+import { IProvider } from './IProvider';
+import { SchemaNode } from '../config/ConfigSchema';
+import { ProviderSettings } from '../config/ProviderSettings';
+import { ActionInputs } from '../config/ActionInputs';
+import { PromptBuilder } from '../prompts/PromptBuilder';
+
+export interface ProviderFactoryOptions {
+  apiKeys: string[];
+  settings: ProviderSettings;
+  promptBuilder: PromptBuilder;
+  inputs: ActionInputs;
+}
+
+export interface ProviderDefinition {
+  // Lower-case id used in the `providers` input and as the input/config prefix
+  id: string;
+  // Schema of the `<id>:` section in the repository config file
+  configSchema: SchemaNode;
+  // Action inputs this provider reads, e.g. `openai-api-keys` and `openai-model`
+  inputs: string[];
+  // Self-hosted endpoints often need no key; the GitHub token is never substituted for them
+  apiKeysOptional?: boolean;
+  // Keys must be configured, e.g. for a user-configured endpoint that must never see the GitHub token
+  apiKeysRequired?: boolean;
+  create(options: ProviderFactoryOptions): IProvider;
+}
+
+export class ProviderRegistry {
+  private definitions: Map<string, ProviderDefinition> = new Map();
+
+  register(definition: ProviderDefinition): void {
+    const id = definition.id.trim().toLowerCase();
+    if (this.definitions.has(id)) {
+      throw new Error(`Provider "${id}" is already registered`);
+    }
+    this.definitions.set(id, { ...definition, id });
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id.toLowerCase());
+  }
+
+  get(id: string): ProviderDefinition {
+    const definition = this.definitions.get(id.toLowerCase());
+    if (!definition) {
+      throw new Error(`Unsupported provider: ${id}. Supported providers: ${this.list().join(', ')}.`);
+    }
+    return definition;
+  }
+
+  list(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  create(id: string, options: ProviderFactoryOptions): IProvider {
+    return this.get(id).create(options);
+  }
+
+  getConfigSchemas(): Record<string, SchemaNode> {
+    const schemas: Record<string, SchemaNode> = {};
+    this.definitions.forEach((definition, id) => {
+      schemas[id] = definition.configSchema;
+    });
+    return schemas;
+  }
+}
+
+/**
+ * Registers the provider definitions exported by a local module. The module may export
+ * a definition (as `default` or `provider`) or an array of them as `providers`.
+ */
+export function registerProviderModule(
+  registry: ProviderRegistry,
+  modulePath: string,
+  workspace: string = process.env.GITHUB_WORKSPACE || process.cwd()
+): string[] {
+  const fullPath = path.resolve(workspace, modulePath);
+  const relative = path.relative(workspace, fullPath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Provider module ${modulePath} must be inside the repository`);
+  }
+
+  let loaded: Record<string, unknown>;
+  try {
+    loaded = require(fullPath);
+  } catch (error) {
+    throw new Error(`Failed to load provider module ${modulePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const exported = loaded.providers ?? loaded.provider ?? loaded.default;
+  const definitions = (Array.isArray(exported) ? exported : [exported]) as Partial<ProviderDefinition>[];
+
+  return definitions.map(definition => {
+    if (!definition || typeof definition.id !== 'string' || typeof definition.create !== 'function') {
+      throw new Error(`Provider module ${modulePath} must export a definition with an "id" and a "create" function`);
+    }
+
+    registry.register({
+      id: definition.id,
+      configSchema: definition.configSchema || { type: 'object', properties: {} },
+      inputs: definition.inputs || [],
+      apiKeysOptional: definition.apiKeysOptional,
+      apiKeysRequired: definition.apiKeysRequired,
+      create: definition.create
+    });
+    return definition.id.toLowerCase();
+  });
+}
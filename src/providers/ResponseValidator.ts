@@ -0,0 +1,145 @@
+import { ReviewResult, ReviewSuggestion } from './IProvider';
+
+type Severity = ReviewSuggestion['severity'];
+
+// Words models use instead of low/medium/high
+export const SEVERITY_SYNONYMS: Record<string, Severity> = {
+  critical: 'high',
+  blocker: 'high',
+  severe: 'high',
+  major: 'high',
+  error: 'high',
+  warning: 'medium',
+  warn: 'medium',
+  moderate: 'medium',
+  normal: 'medium',
+  minor: 'low',
+  info: 'low',
+  nit: 'low',
+  nitpick: 'low',
+  trivial: 'low',
+  style: 'low',
+  suggestion: 'low'
+};
+
+export interface DroppedSuggestion {
+  index: number;
+  reason: string;
+}
+
+export interface ValidationReport {
+  // The result with only the valid, normalized suggestions
+  result: ReviewResult;
+  dropped: DroppedSuggestion[];
+  // Every problem found, phrased for the repair prompt
+  errors: string[];
+  // The response was unreadable or mostly invalid, so a repair is worth asking for
+  needsRepair: boolean;
+}
+
+/**
+ * Checks and normalizes a provider's review. Line numbers given as strings become
+ * integers and severity synonyms are mapped; suggestions that still do not fit
+ * ReviewSuggestion are dropped with a reason.
+ */
+export function validateReviewResult(result: ReviewResult): ValidationReport {
+  const errors: string[] = [];
+  if (result.parseError) {
+    errors.push(`the response is not a JSON object (${result.parseError})`);
+  }
+
+  const raw: unknown = result.suggestions;
+  if (raw !== undefined && raw !== null && !Array.isArray(raw)) {
+    errors.push('"suggestions" must be an array');
+  }
+  const entries: unknown[] = Array.isArray(raw) ? raw : [];
+
+  const suggestions: ReviewSuggestion[] = [];
+  const dropped: DroppedSuggestion[] = [];
+  entries.forEach((entry, index) => {
+    const normalized = normalizeSuggestion(entry);
+    if (typeof normalized === 'string') {
+      dropped.push({ index, reason: normalized });
+      errors.push(`suggestions[${index}]: ${normalized}`);
+    } else {
+      suggestions.push(normalized);
+    }
+  });
+
+  const summary = typeof result.summary === 'string' ? result.summary : String(result.summary ?? '');
+
+  return {
+    result: { ...result, summary, suggestions },
+    dropped,
+    errors,
+    needsRepair: errors.length > 0 && (suggestions.length === 0 || dropped.length > suggestions.length)
+  };
+}
+
+// Returns the normalized suggestion, or the reason it is invalid
+export function normalizeSuggestion(entry: unknown): ReviewSuggestion | string {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return 'not an object';
+  }
+  const item = entry as Record<string, unknown>;
+
+  const file = typeof item.file === 'string' ? item.file.trim().replace(/^(a\/|b\/|\.\/)/, '') : '';
+  if (!file) {
+    return 'missing "file"';
+  }
+
+  const line = toLineNumber(item.line);
+  if (line === undefined) {
+    return `"line" must be a positive integer, got ${JSON.stringify(item.line) ?? 'nothing'}`;
+  }
+
+  const severity = toSeverity(item.severity);
+  if (!severity) {
+    return `unknown "severity" ${JSON.stringify(item.severity)} (expected low, medium or high)`;
+  }
+
+  const message = typeof item.message === 'string' ? item.message.trim() : '';
+  if (!message) {
+    return 'missing "message"';
+  }
+
+  const suggestion: ReviewSuggestion = { file, line, severity, message };
+  if (typeof item.suggestion === 'string' || typeof item.suggestion === 'number') {
+    suggestion.suggestion = String(item.suggestion);
+  }
+  if (Array.isArray(item.providers)) {
+    suggestion.providers = item.providers.filter((name): name is string => typeof name === 'string');
+  }
+  if (typeof item.confidence === 'number') {
+    suggestion.confidence = item.confidence;
+  }
+  return suggestion;
+}
+
+// Accepts 12, "12", "L12" and ranges like "12-15" (their first line)
+function toLineNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? value : undefined;
+  }
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^L?(\d+)(\s*[-:]\s*L?\d+)?$/i);
+    const line = match ? Number(match[1]) : 0;
+    return line > 0 ? line : undefined;
+  }
+  return undefined;
+}
+
+// A missing severity defaults to medium; unknown words are rejected
+function toSeverity(value: unknown): Severity | undefined {
+  if (value === undefined || value === null || value === '') {
+    return 'medium';
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'low' || normalized === 'medium' || normalized === 'high') {
+    return normalized;
+  }
+  return SEVERITY_SYNONYMS[normalized];
+}
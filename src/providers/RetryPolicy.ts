@@ -0,0 +1,120 @@
+import * as core from '@actions/core';
+import { isRetryableError, ProviderRequestError } from './ProviderError';
+import { ActionInputs } from '../config/ActionInputs';
+
+export interface RetryOptions {
+  // Attempts per provider call, including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Retries shared by every provider call made for one chunk
+  budget: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  budget: 4
+};
+
+const RETRY_INPUTS: Array<[keyof RetryOptions, string, number]> = [
+  ['maxAttempts', 'retry-max-attempts', 1],
+  ['baseDelayMs', 'retry-base-delay', 0],
+  ['maxDelayMs', 'retry-max-delay', 0],
+  ['budget', 'retry-budget', 0]
+];
+
+// Reads the retry-* inputs; each must be a whole number at or above its minimum
+export function readRetryOptions(inputs: ActionInputs): RetryOptions {
+  const options = { ...DEFAULT_RETRY_OPTIONS };
+
+  for (const [key, name, minimum] of RETRY_INPUTS) {
+    const raw = inputs.getInput(name).trim();
+    if (!raw) continue;
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < minimum) {
+      throw new Error(`Invalid input ${name}: expected a whole number of at least ${minimum}, got "${raw}"`);
+    }
+    options[key] = value;
+  }
+
+  return options;
+}
+
+// Retries left for one chunk; failover and ensemble calls draw from the same pool
+export class RetryBudget {
+  private used = 0;
+
+  constructor(private total: number) {}
+
+  tryConsume(): boolean {
+    if (this.used >= this.total) {
+      return false;
+    }
+    this.used++;
+    return true;
+  }
+
+  getRemaining(): number {
+    return this.total - this.used;
+  }
+
+  getUsed(): number {
+    return this.used;
+  }
+}
+
+// Capped exponential backoff with full jitter: a random delay up to base * 2^(attempt - 1)
+export function computeBackoff(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+export interface RetryContext {
+  label: string;
+  options: RetryOptions;
+  budget: RetryBudget;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+/**
+ * Runs `operation`, retrying retryable failures (429, 5xx, timeouts and network
+ * errors) until the attempts or the chunk's budget run out. A server-provided
+ * Retry-After is used as the delay; one longer than `maxDelayMs` is not waited
+ * for, so the caller can move on to another provider instead.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, context: RetryContext): Promise<T> {
+  const { label, options, budget } = context;
+  const sleep = context.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!isRetryableError(error) || attempt >= options.maxAttempts) {
+        throw error;
+      }
+
+      const retryAfterMs = error instanceof ProviderRequestError ? error.retryAfterMs : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs) {
+        core.info(`⏳ ${label} asked to retry after ${retryAfterMs}ms, longer than the ${options.maxDelayMs}ms limit; not retrying`);
+        throw error;
+      }
+
+      if (!budget.tryConsume()) {
+        core.warning(`Retry budget for this chunk exhausted after ${budget.getUsed()} retries; not retrying ${label}`);
+        throw error;
+      }
+
+      const delay = retryAfterMs ?? computeBackoff(attempt, options, context.random);
+      core.info(
+        `⏳ ${label} failed (${error instanceof Error ? error.message : 'Unknown error'}); ` +
+        `retry ${attempt}/${options.maxAttempts - 1} in ${delay}ms, ${budget.getRemaining()} retries left for this chunk`
+      );
+      await sleep(delay);
+    }
+  }
+}
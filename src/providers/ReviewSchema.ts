@@ -0,0 +1,53 @@
+// The JSON Schema subset understood by OpenAI structured outputs, Claude tool input
+// schemas and (after conversion) Gemini response schemas
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  additionalProperties?: boolean;
+}
+
+export const REVIEW_RESULT_SCHEMA_NAME = 'review_result';
+
+/**
+ * Shape of a review answer, shared by every provider with native structured output.
+ * Every property is required and no others are allowed, as OpenAI's strict mode demands;
+ * `suggestion` may be an empty string when there is no concrete fix.
+ */
+export const REVIEW_RESULT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'Overall assessment of the change' },
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string', description: 'Path of the file, as shown in the diff' },
+          line: { type: 'integer', description: 'Line number in the new version of the file' },
+          severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+          message: { type: 'string', description: 'What is wrong' },
+          suggestion: { type: 'string', description: 'How to fix it, or an empty string' }
+        },
+        required: ['file', 'line', 'severity', 'message', 'suggestion'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['summary', 'suggestions'],
+  additionalProperties: false
+};
+
+// json_schema response_format arrived with gpt-4o-2024-08-06; older models only take prompt instructions
+export function supportsOpenAIJsonSchema(model: string): boolean {
+  const normalized = model.toLowerCase();
+  return /^(gpt-4o|gpt-4\.1|gpt-5|o[134])/.test(normalized) && !normalized.startsWith('gpt-4o-2024-05-13');
+}
+
+// responseSchema is supported from Gemini 1.5 on
+export function supportsGeminiResponseSchema(model: string): boolean {
+  return !/^(models\/)?gemini-(pro|1\.0)/.test(model.toLowerCase());
+}
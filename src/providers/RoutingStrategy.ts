@@ -0,0 +1,204 @@
+import { IProvider } from './IProvider';
+import { calculateCost, estimateTokens, findModelPrice, MODEL_PRICES, ModelPrice } from './ModelPricing';
+
+export const ROUTING_STRATEGIES = ['round-robin', 'priority', 'weighted', 'cheapest', 'least-recently-failed'] as const;
+
+export type RoutingStrategyName = typeof ROUTING_STRATEGIES[number];
+
+export interface RoutingDetails {
+  strategy: RoutingStrategyName;
+  weight?: number;
+  // Estimated USD for the most recent chunk, from the price table or routing-costs
+  estimatedCost?: number;
+}
+
+export interface RoutingState {
+  lastFailure?: Date;
+}
+
+export interface RoutingStrategy {
+  name: RoutingStrategyName;
+  // Providers in the order they should be tried for this chunk
+  order(providers: IProvider[], diff: string, state: Map<string, RoutingState>): IProvider[];
+  describe(provider: IProvider): RoutingDetails;
+}
+
+export interface RoutingOptions {
+  // Keyed by provider id, e.g. { claude: 3, openai: 1 }
+  weights?: Record<string, number>;
+  // USD per million tokens, overriding the price table for a provider id
+  costs?: Record<string, number>;
+  // Price table by model prefix; defaults to MODEL_PRICES
+  prices?: Record<string, ModelPrice>;
+}
+
+export class RoutingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoutingConfigError';
+  }
+}
+
+// Provider ids are the lower-cased, dash-joined display names ("Azure OpenAI" -> azure-openai)
+export function providerKey(provider: IProvider): string {
+  return provider.name.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+// The original rotation: each chunk starts one provider further along the list
+export class RoundRobinStrategy implements RoutingStrategy {
+  name: RoutingStrategyName = 'round-robin';
+  private currentIndex = 0;
+
+  order(providers: IProvider[]): IProvider[] {
+    const start = this.currentIndex % providers.length;
+    this.currentIndex = (start + 1) % providers.length;
+    return [...providers.slice(start), ...providers.slice(0, start)];
+  }
+
+  describe(): RoutingDetails {
+    return { strategy: this.name };
+  }
+}
+
+// Always the configured order: the first provider is preferred, the rest are backups
+export class PriorityStrategy implements RoutingStrategy {
+  name: RoutingStrategyName = 'priority';
+
+  order(providers: IProvider[]): IProvider[] {
+    return [...providers];
+  }
+
+  describe(): RoutingDetails {
+    return { strategy: this.name };
+  }
+}
+
+/**
+ * Spreads chunks in proportion to the configured weights using smooth weighted
+ * round-robin, which is deterministic and interleaves instead of sending bursts.
+ * The remaining providers follow as backups, heaviest first.
+ */
+export class WeightedStrategy implements RoutingStrategy {
+  name: RoutingStrategyName = 'weighted';
+  private current: Map<string, number> = new Map();
+
+  constructor(private weights: Record<string, number> = {}) {}
+
+  order(providers: IProvider[]): IProvider[] {
+    const total = providers.reduce((sum, provider) => sum + this.weightOf(provider), 0);
+    let selected = providers[0];
+
+    for (const provider of providers) {
+      const key = providerKey(provider);
+      this.current.set(key, (this.current.get(key) || 0) + this.weightOf(provider));
+      if ((this.current.get(key) || 0) > (this.current.get(providerKey(selected)) || 0)) {
+        selected = provider;
+      }
+    }
+    this.current.set(providerKey(selected), (this.current.get(providerKey(selected)) || 0) - total);
+
+    const backups = providers
+      .filter(provider => provider !== selected)
+      .sort((a, b) => this.weightOf(b) - this.weightOf(a));
+    return [selected, ...backups];
+  }
+
+  describe(provider: IProvider): RoutingDetails {
+    return { strategy: this.name, weight: this.weightOf(provider) };
+  }
+
+  private weightOf(provider: IProvider): number {
+    return this.weights[providerKey(provider)] ?? 1;
+  }
+}
+
+/**
+ * Orders providers by the estimated cost of the chunk: the diff size priced at the
+ * model's input rate plus the provider's response limit at its output rate.
+ * Providers with no known price go last, in the configured order.
+ */
+export class CheapestFirstStrategy implements RoutingStrategy {
+  name: RoutingStrategyName = 'cheapest';
+  private lastEstimates: Map<string, number> = new Map();
+
+  constructor(private costs: Record<string, number> = {}, private prices: Record<string, ModelPrice> = MODEL_PRICES) {}
+
+  order(providers: IProvider[], diff: string): IProvider[] {
+    const estimates = new Map(providers.map(provider => [provider, this.estimate(provider, diff)]));
+    estimates.forEach((cost, provider) => {
+      if (cost !== undefined) this.lastEstimates.set(providerKey(provider), cost);
+    });
+
+    // Array.prototype.sort is stable, so unknown or equal costs keep the configured order
+    return [...providers].sort((a, b) =>
+      (estimates.get(a) ?? Number.POSITIVE_INFINITY) - (estimates.get(b) ?? Number.POSITIVE_INFINITY));
+  }
+
+  describe(provider: IProvider): RoutingDetails {
+    return { strategy: this.name, estimatedCost: this.lastEstimates.get(providerKey(provider)) };
+  }
+
+  private estimate(provider: IProvider, diff: string): number | undefined {
+    const info = (provider as IProvider & { getModelInfo?: () => { model: string; maxTokens: number } }).getModelInfo?.();
+    const inputTokens = estimateTokens(diff);
+    const outputTokens = info?.maxTokens || 0;
+
+    const override = this.costs[providerKey(provider)];
+    if (override !== undefined) {
+      return (inputTokens + outputTokens) * override / 1_000_000;
+    }
+
+    const price = info ? findModelPrice(info.model, this.prices) : undefined;
+    return price ? calculateCost(inputTokens, outputTokens, price) : undefined;
+  }
+}
+
+// Providers that have never failed come first; the rest by how long ago they last failed
+export class LeastRecentlyFailedStrategy implements RoutingStrategy {
+  name: RoutingStrategyName = 'least-recently-failed';
+
+  order(providers: IProvider[], _diff: string, state: Map<string, RoutingState>): IProvider[] {
+    const failedAt = (provider: IProvider) => state.get(provider.name)?.lastFailure?.getTime() ?? 0;
+    return [...providers].sort((a, b) => failedAt(a) - failedAt(b));
+  }
+
+  describe(): RoutingDetails {
+    return { strategy: this.name };
+  }
+}
+
+export function createRoutingStrategy(name: string, options: RoutingOptions = {}): RoutingStrategy {
+  switch (name.trim().toLowerCase() || 'round-robin') {
+    case 'round-robin':
+      return new RoundRobinStrategy();
+    case 'priority':
+      return new PriorityStrategy();
+    case 'weighted':
+      return new WeightedStrategy(options.weights);
+    case 'cheapest':
+      return new CheapestFirstStrategy(options.costs, options.prices);
+    case 'least-recently-failed':
+      return new LeastRecentlyFailedStrategy();
+    default:
+      throw new RoutingConfigError(`Unsupported routing strategy: ${name}. Supported strategies: ${ROUTING_STRATEGIES.join(', ')}.`);
+  }
+}
+
+/**
+ * Parses `provider=number` entries such as `claude=3,openai=1` into a map keyed
+ * by provider id. Used for routing weights and cost overrides.
+ */
+export function parseProviderNumbers(entries: string[], inputName: string): Record<string, number> {
+  const values: Record<string, number> = {};
+
+  for (const entry of entries) {
+    const [provider, raw, ...rest] = entry.split('=').map(part => part.trim());
+    const value = Number(raw);
+    if (!provider || !raw || rest.length > 0 || Number.isNaN(value) || value < 0) {
+      throw new RoutingConfigError(`Invalid ${inputName} entry "${entry}": expected "provider=number"`);
+    }
+    values[provider.toLowerCase()] = value;
+  }
+
+  return values;
+}
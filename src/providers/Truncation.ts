@@ -0,0 +1,54 @@
+import { ActionInputs } from '../config/ActionInputs';
+import { ReviewResult, ReviewSuggestion } from './IProvider';
+import { sumUsage } from './UsageTracker';
+
+export const TRUNCATION_ACTIONS = ['none', 'continue', 'split'] as const;
+
+export type TruncationAction = typeof TRUNCATION_ACTIONS[number];
+
+// Follow-up requests for one cut-off answer with the continue action
+export const MAX_CONTINUATIONS = 2;
+
+// How often a chunk may be halved again with the split action
+export const MAX_SPLIT_DEPTH = 2;
+
+// Reads truncation-action; none keeps the suggestions recovered from the cut-off answer
+export function readTruncationAction(inputs: ActionInputs): TruncationAction {
+  const action = inputs.getInput('truncation-action', 'none').trim().toLowerCase();
+  if (!(TRUNCATION_ACTIONS as readonly string[]).includes(action)) {
+    throw new Error(`Invalid truncation-action: ${action}. Supported actions: ${TRUNCATION_ACTIONS.join(', ')}.`);
+  }
+  return action as TruncationAction;
+}
+
+/**
+ * Adds the findings of a continuation to the answer it continues. The first
+ * summary is kept and findings the model repeated are skipped.
+ */
+export function mergeContinuation(previous: ReviewResult, next: ReviewResult): ReviewResult {
+  const seen = new Set(previous.suggestions.map(suggestionKey));
+  const added = next.suggestions.filter(suggestion => !seen.has(suggestionKey(suggestion)));
+
+  return {
+    ...previous,
+    suggestions: [...previous.suggestions, ...added],
+    usage: sumUsage([previous.usage, next.usage]),
+    truncated: next.truncated && added.length > 0
+  };
+}
+
+// Combines the reviews of the parts of a split chunk; `original` is the cut-off answer that caused the split, if any
+export function combineSplitResults(parts: ReviewResult[], original?: ReviewResult): ReviewResult {
+  return {
+    summary: parts.map(part => part.summary).filter(Boolean).join('\n\n'),
+    suggestions: parts.flatMap(part => part.suggestions),
+    confidence: Math.min(...parts.map(part => part.confidence)),
+    // The cut-off first answer was paid for as well
+    usage: sumUsage([original?.usage, ...parts.map(part => part.usage)]),
+    truncated: parts.some(part => part.truncated)
+  };
+}
+
+function suggestionKey(suggestion: ReviewSuggestion): string {
+  return `${suggestion.file}:${suggestion.line}:${suggestion.message}`;
+}
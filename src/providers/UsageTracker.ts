@@ -0,0 +1,83 @@
+import { TokenUsage } from './IProvider';
+import { calculateCost, findModelPrice, MODEL_PRICES, ModelPrice } from './ModelPricing';
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  // USD, for responses whose model has a known price
+  cost: number;
+  responses: number;
+  // Responses whose model is missing from the price table; their cost is not included
+  unpricedResponses: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, cost: 0, responses: 0, unpricedResponses: 0 };
+}
+
+/**
+ * Adds up token usage and cost per provider for a run. Costs come from the
+ * price table, matched by model prefix.
+ */
+export class UsageTracker {
+  private byProvider: Map<string, UsageTotals> = new Map();
+
+  constructor(private prices: Record<string, ModelPrice> = MODEL_PRICES) {}
+
+  // Returns the cost of this response, or undefined when the model has no price
+  record(providerName: string, model: string | undefined, usage: TokenUsage): number | undefined {
+    const price = model ? findModelPrice(model, this.prices) : undefined;
+    const cost = price ? calculateCost(usage.inputTokens, usage.outputTokens, price) : undefined;
+
+    const totals = this.byProvider.get(providerName) || emptyTotals();
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.responses++;
+    if (cost === undefined) {
+      totals.unpricedResponses++;
+    } else {
+      totals.cost += cost;
+    }
+    this.byProvider.set(providerName, totals);
+
+    return cost;
+  }
+
+  getProviderTotals(): Record<string, UsageTotals> {
+    return Object.fromEntries(Array.from(this.byProvider.entries()).map(([name, totals]) => [name, { ...totals }]));
+  }
+
+  getTotals(): UsageTotals {
+    return addUsage(Array.from(this.byProvider.values()));
+  }
+}
+
+function addUsage(items: UsageTotals[]): UsageTotals {
+  return items.reduce((sum, item) => ({
+    inputTokens: sum.inputTokens + item.inputTokens,
+    outputTokens: sum.outputTokens + item.outputTokens,
+    cost: sum.cost + item.cost,
+    responses: sum.responses + item.responses,
+    unpricedResponses: sum.unpricedResponses + item.unpricedResponses
+  }), emptyTotals());
+}
+
+// Usage of several responses for one chunk (ensemble members, repairs); undefined when none reported any
+export function sumUsage(items: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const reported = items.filter((usage): usage is TokenUsage => usage !== undefined);
+  if (reported.length === 0) return undefined;
+
+  return {
+    inputTokens: reported.reduce((sum, usage) => sum + usage.inputTokens, 0),
+    outputTokens: reported.reduce((sum, usage) => sum + usage.outputTokens, 0),
+    // Covers the responses whose model has a price
+    cost: reported.some(usage => usage.cost !== undefined)
+      ? reported.reduce((sum, usage) => sum + (usage.cost || 0), 0)
+      : undefined
+  };
+}
+
+// Costs are small per review, so four decimals
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(4)}`;
+}
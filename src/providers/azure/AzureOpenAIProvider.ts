@@ -0,0 +1,214 @@
+import { ConfigurableProvider, ProviderConfigError } from '../BaseProvider';
+import { ReviewContext, ReviewResult } from '../IProvider';
+import { parseReviewResponse, parseStructuredReview } from '../responseParser';
+import { supportsOpenAIJsonSchema } from '../ReviewSchema';
+import { OPENAI_RESPONSE_FORMAT } from '../openai/OpenAIProvider';
+import { BadResponseError, ContentBlockedError, toProviderError } from '../ProviderError';
+import { PromptBuilder } from '../../prompts/PromptBuilder';
+import { AzureOpenAI } from 'openai';
+
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+export interface AzureOpenAIConfig {
+  apiKeys: string[];
+  // Resource endpoint, e.g. https://my-resource.openai.azure.com
+  endpoint: string;
+  apiVersion?: string;
+  // Model name -> deployment name; models without an entry use a deployment of the same name
+  deployments?: Record<string, string>;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  timeout?: number;
+  promptBuilder?: PromptBuilder;
+}
+
+export class AzureContentFilterError extends ContentBlockedError {
+  constructor(public categories: string[], target: 'prompt' | 'response') {
+    super(`Azure OpenAI content filter blocked the ${target}${categories.length > 0 ? ` (${categories.join(', ')})` : ''}`, {
+      provider: 'Azure OpenAI',
+      status: target === 'prompt' ? 400 : undefined,
+      detail: categories.join(', ') || undefined
+    });
+    this.name = 'AzureContentFilterError';
+  }
+}
+
+interface AzureApiError {
+  status?: number;
+  code?: string | null;
+  error?: {
+    code?: string;
+    innererror?: { content_filter_result?: Record<string, { filtered?: boolean }> };
+  };
+}
+
+export class AzureOpenAIProvider extends ConfigurableProvider {
+  name = 'Azure OpenAI';
+  private clients: Map<string, AzureOpenAI> = new Map();
+  private endpoint: string;
+  private apiVersion: string;
+  private deployments: Record<string, string>;
+
+  constructor(config: AzureOpenAIConfig) {
+    super({ ...config, name: 'Azure OpenAI' });
+    this.endpoint = config.endpoint;
+    this.apiVersion = config.apiVersion || DEFAULT_AZURE_API_VERSION;
+    this.deployments = config.deployments || {};
+
+    // Retries are handled here so that a 429 can move on to the next key in the pool
+    this.apiKeys.forEach(key => {
+      this.clients.set(key, new AzureOpenAI({
+        apiKey: key,
+        endpoint: this.endpoint,
+        apiVersion: this.apiVersion,
+        timeout: this.getTimeout(),
+        maxRetries: 0
+      }));
+    });
+  }
+
+  protected validateConfig(): void {
+    super.validateConfig();
+    const { endpoint } = this.config as unknown as AzureOpenAIConfig;
+
+    if (!endpoint || !/^https:\/\/[^\s]+$/.test(endpoint)) {
+      throw new ProviderConfigError('Invalid Azure OpenAI configuration: endpoint must be an https URL');
+    }
+  }
+
+  async initialize(): Promise<void> {
+    await this.healthCheck();
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const client = this.clients.get(this.getCurrentApiKey());
+      if (!client) return false;
+
+      await client.models.list();
+      return true;
+    } catch {
+      console.warn('Azure OpenAI health check failed');
+      return false;
+    }
+  }
+
+  getModelInfo(): { model: string; maxTokens: number } {
+    return {
+      model: this.getModel(),
+      maxTokens: this.getMaxTokens()
+    };
+  }
+
+  getDeployment(): string {
+    return this.deployments[this.getModel()] || this.getModel();
+  }
+
+  async analyzeCode(diff: string, context: ReviewContext): Promise<ReviewResult> {
+    const prompt = this.buildPrompt(diff, context);
+    // Capability follows the model behind the deployment
+    const structured = supportsOpenAIJsonSchema(this.getModel());
+    const apiKey = this.getCurrentApiKey();
+    const client = this.clients.get(apiKey);
+    if (!client) {
+      throw new Error('Azure OpenAI client not found for API key');
+    }
+
+    try {
+      const response = await client.chat.completions.create({
+        // Azure routes on the deployment name passed as the model
+        model: this.getDeployment(),
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content: prompt.user }
+        ],
+        temperature: this.getTemperature(),
+        max_tokens: this.getMaxTokens(),
+        ...(structured ? { response_format: OPENAI_RESPONSE_FORMAT } : {})
+      });
+
+      const choice = response.choices[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new AzureContentFilterError([], 'response');
+      }
+
+      const content = choice?.message?.content;
+      if (!content) {
+        throw new BadResponseError('No response from Azure OpenAI', { provider: 'Azure OpenAI' });
+      }
+
+      const truncated = choice.finish_reason === 'length';
+      const result = structured
+        ? parseStructuredReview(content, { provider: 'Azure OpenAI', defaultSummary: 'Review completed', confidence: 0.8, truncated })
+        : parseReviewResponse(content, {
+          defaultSummary: 'Review completed',
+          confidence: 0.8,
+          fallbackConfidence: 0.5,
+          truncated
+        });
+      if (response.usage) {
+        result.usage = { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens };
+      }
+      this.markKeySuccess(apiKey);
+      return result;
+    } catch (error) {
+      // A 429 becomes a rate-limit error carrying Retry-After; waiting and
+      // retrying on the next key are left to the retry policy
+      const providerError = toProviderError(error, 'Azure OpenAI');
+      // Also puts a rate-limited key on cooldown so the next attempt skips it
+      this.markKeyFailure(apiKey, providerError);
+
+      if (error instanceof AzureContentFilterError) {
+        throw error;
+      }
+
+      const apiError = error as AzureApiError;
+      if (isContentFilterError(apiError)) {
+        throw new AzureContentFilterError(filteredCategories(apiError), 'prompt');
+      }
+
+      throw providerError;
+    } finally {
+      this.advanceToNextApiKey();
+    }
+  }
+
+  protected getDefaultModel(): string {
+    return 'gpt-4';
+  }
+
+  protected getDefaultMaxTokens(): number {
+    return 1000;
+  }
+
+  protected getProviderId(): string {
+    return 'azure-openai';
+  }
+}
+
+/**
+ * Parses `model=deployment` entries into a deployment map.
+ */
+export function parseDeploymentMap(entries: string[]): Record<string, string> {
+  const deployments: Record<string, string> = {};
+
+  for (const entry of entries) {
+    const [model, deployment, ...rest] = entry.split('=').map(part => part.trim());
+    if (!model || !deployment || rest.length > 0) {
+      throw new ProviderConfigError(`Invalid Azure OpenAI deployment mapping "${entry}": expected "model=deployment"`);
+    }
+    deployments[model] = deployment;
+  }
+
+  return deployments;
+}
+
+function isContentFilterError(error: AzureApiError): boolean {
+  return error.status === 400 && (error.code === 'content_filter' || error.error?.code === 'content_filter');
+}
+
+function filteredCategories(error: AzureApiError): string[] {
+  const results = error.error?.innererror?.content_filter_result || {};
+  return Object.keys(results).filter(category => results[category]?.filtered);
+}
@@ -0,0 +1,129 @@
+import * as path from 'path';
+import { ProviderRegistry } from './ProviderRegistry';
+import { OpenAIProvider } from './openai/OpenAIProvider';
+import { ClaudeProvider } from './claude/ClaudeProvider';
+import { GeminiProvider } from './gemini/GeminiProvider';
+import { OpenAICompatibleProvider, parseHeaderLines } from './openai-compatible/OpenAICompatibleProvider';
+import { AzureOpenAIProvider, parseDeploymentMap } from './azure/AzureOpenAIProvider';
+import { COMMAND_INPUT_FORMATS, CommandInputFormat, CommandProvider } from './command/CommandProvider';
+import { ReplayProvider } from './cassette/ReplayProvider';
+import { PROVIDER_SETTINGS_PROPERTIES, PROVIDER_SETTINGS_SCHEMA } from '../config/ConfigSchema';
+import { standardProviderInputs } from '../config/ProviderSettings';
+import { ProviderConfigError } from './BaseProvider';
+
+export function registerBuiltinProviders(registry: ProviderRegistry): void {
+  registry.register({
+    id: 'openai',
+    configSchema: PROVIDER_SETTINGS_SCHEMA,
+    inputs: standardProviderInputs('openai'),
+    create: ({ apiKeys, settings, promptBuilder }) => new OpenAIProvider({ apiKeys, ...settings, promptBuilder })
+  });
+
+  registry.register({
+    id: 'claude',
+    configSchema: PROVIDER_SETTINGS_SCHEMA,
+    inputs: standardProviderInputs('claude'),
+    create: ({ apiKeys, settings, promptBuilder }) => new ClaudeProvider({ apiKeys, ...settings, promptBuilder })
+  });
+
+  registry.register({
+    id: 'gemini',
+    configSchema: PROVIDER_SETTINGS_SCHEMA,
+    inputs: standardProviderInputs('gemini'),
+    create: ({ apiKeys, settings, promptBuilder }) => new GeminiProvider({ apiKeys, ...settings, promptBuilder })
+  });
+
+  registry.register({
+    id: 'openai-compatible',
+    configSchema: {
+      type: 'object',
+      properties: { ...PROVIDER_SETTINGS_PROPERTIES, headers: { type: 'list' } }
+    },
+    inputs: [...standardProviderInputs('openai-compatible'), 'openai-compatible-headers'],
+    apiKeysOptional: true,
+    create: ({ apiKeys, settings, promptBuilder, inputs }) => new OpenAICompatibleProvider({
+      apiKeys,
+      ...settings,
+      model: settings.model || '',
+      baseUrl: settings.baseUrl || '',
+      headers: parseHeaderLines(inputs.getMultiline('openai-compatible-headers')),
+      promptBuilder
+    })
+  });
+
+  // Azure addresses a resource endpoint and deployments instead of a base URL and models
+  const azureSettings = Object.fromEntries(
+    Object.entries(PROVIDER_SETTINGS_PROPERTIES).filter(([key]) => key !== 'base-url')
+  );
+  registry.register({
+    id: 'azure-openai',
+    configSchema: {
+      type: 'object',
+      properties: {
+        ...azureSettings,
+        endpoint: { type: 'string' },
+        'api-version': { type: 'string' },
+        deployments: { type: 'list' }
+      }
+    },
+    inputs: [
+      ...standardProviderInputs('azure-openai').filter(input => input !== 'azure-openai-base-url'),
+      'azure-openai-endpoint',
+      'azure-openai-api-version',
+      'azure-openai-deployments'
+    ],
+    apiKeysRequired: true,
+    create: ({ apiKeys, settings, promptBuilder, inputs }) => new AzureOpenAIProvider({
+      apiKeys,
+      ...settings,
+      endpoint: inputs.getInput('azure-openai-endpoint').trim(),
+      apiVersion: inputs.getInput('azure-openai-api-version').trim() || undefined,
+      deployments: parseDeploymentMap(inputs.getList('azure-openai-deployments')),
+      promptBuilder
+    })
+  });
+
+  // Local executables need no keys and no model settings, only the command itself
+  registry.register({
+    id: 'command',
+    configSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        args: { type: 'list' },
+        timeout: { type: 'integer', minimum: 1 },
+        'input-format': { type: 'string', enum: COMMAND_INPUT_FORMATS }
+      }
+    },
+    inputs: ['command-path', 'command-args', 'command-timeout', 'command-input-format'],
+    apiKeysOptional: true,
+    create: ({ settings, promptBuilder, inputs }) => new CommandProvider({
+      command: inputs.getInput('command-path').trim(),
+      args: inputs.getMultiline('command-args'),
+      timeout: settings.timeout,
+      inputFormat: (inputs.getInput('command-input-format').trim() || 'text') as CommandInputFormat,
+      promptBuilder
+    })
+  });
+
+  // Serves responses recorded through the record-cassette input; never calls a model
+  registry.register({
+    id: 'replay',
+    configSchema: { type: 'object', properties: { cassette: { type: 'string' } } },
+    inputs: ['replay-cassette'],
+    apiKeysOptional: true,
+    create: ({ promptBuilder, inputs }) => {
+      const cassette = inputs.getInput('replay-cassette').trim();
+      if (!cassette) {
+        throw new ProviderConfigError('Invalid Replay configuration: replay-cassette is required');
+      }
+      return new ReplayProvider(path.resolve(process.env.GITHUB_WORKSPACE || process.cwd(), cassette), promptBuilder);
+    }
+  });
+}
+
+export function createDefaultRegistry(): ProviderRegistry {
+  const registry = new ProviderRegistry();
+  registerBuiltinProviders(registry);
+  return registry;
+}
@@ -0,0 +1,63 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ReviewResult } from '../IProvider';
+import { PromptParts } from '../../prompts/PromptTemplate';
+
+export const CASSETTE_FORMAT_VERSION = 1;
+
+export interface CassetteEntry {
+  // Provider id the prompt was rendered for, e.g. `openai`
+  provider: string;
+  providerName: string;
+  promptVersion: string;
+  recordedAt: string;
+  response: ReviewResult;
+}
+
+export interface Cassette {
+  version: number;
+  // Keyed by promptHash()
+  entries: Record<string, CassetteEntry>;
+}
+
+export class CassetteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteError';
+  }
+}
+
+// Hash of exactly what the provider sends, so any prompt or diff change is a different key
+export function promptHash(prompt: PromptParts): string {
+  return crypto.createHash('sha256').update(prompt.system).update('\0').update(prompt.user).digest('hex');
+}
+
+export function emptyCassette(): Cassette {
+  return { version: CASSETTE_FORMAT_VERSION, entries: {} };
+}
+
+export function loadCassette(filePath: string): Cassette {
+  let parsed: Partial<Cassette>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new CassetteError(`Failed to read cassette ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (parsed.version !== CASSETTE_FORMAT_VERSION || !parsed.entries || typeof parsed.entries !== 'object') {
+    throw new CassetteError(`Unsupported cassette format in ${filePath} (expected version ${CASSETTE_FORMAT_VERSION})`);
+  }
+
+  return parsed as Cassette;
+}
+
+export function saveCassette(filePath: string, cassette: Cassette): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // Sorted keys keep re-recorded cassettes diffable in code review
+  const entries: Record<string, CassetteEntry> = {};
+  Object.keys(cassette.entries).sort().forEach(key => {
+    entries[key] = cassette.entries[key];
+  });
+  fs.writeFileSync(filePath, JSON.stringify({ version: cassette.version, entries }, null, 2) + '\n');
+}
@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import { IProvider, ReviewContext, ReviewResult } from '../IProvider';
+import { PromptBuilder } from '../../prompts/PromptBuilder';
+import { ApiKeyStats } from '../BaseProvider';
+import { Cassette, emptyCassette, loadCassette, promptHash, saveCassette } from './Cassette';
+
+/**
+ * Wraps a provider and writes each successful response to a cassette file, keyed
+ * by the hash of the prompt the provider was sent. Failures are not recorded.
+ * Existing entries in the file are kept, so several runs can add to one cassette.
+ */
+export class RecordingProvider implements IProvider {
+  name: string;
+  private cassette: Cassette;
+
+  constructor(
+    private provider: IProvider,
+    private providerId: string,
+    private promptBuilder: PromptBuilder,
+    private cassettePath: string
+  ) {
+    this.name = provider.name;
+    this.cassette = fs.existsSync(cassettePath) ? loadCassette(cassettePath) : emptyCassette();
+  }
+
+  async analyzeCode(diff: string, context: ReviewContext): Promise<ReviewResult> {
+    const result = await this.provider.analyzeCode(diff, context);
+
+    const key = promptHash(this.promptBuilder.build(this.providerId, diff, context));
+    this.cassette.entries[key] = {
+      provider: this.providerId,
+      providerName: this.provider.name,
+      promptVersion: this.promptBuilder.getVersion(),
+      recordedAt: new Date().toISOString(),
+      response: result
+    };
+    // Written after every response so an aborted run still leaves a usable cassette
+    saveCassette(this.cassettePath, this.cassette);
+
+    return result;
+  }
+
+  setModel(model: string): void {
+    (this.provider as IProvider & { setModel?: (model: string) => void }).setModel?.(model);
+  }
+
+  getModelInfo(): { model: string; maxTokens: number } | undefined {
+    return (this.provider as IProvider & { getModelInfo?: () => { model: string; maxTokens: number } }).getModelInfo?.();
+  }
+
+  // Key health lives on the wrapped provider
+  getKeyStats(): ApiKeyStats[] {
+    return (this.provider as IProvider & { getKeyStats?: () => ApiKeyStats[] }).getKeyStats?.() || [];
+  }
+}
@@ -0,0 +1,38 @@
+import { IProvider, ReviewContext, ReviewResult } from '../IProvider';
+import { PromptBuilder } from '../../prompts/PromptBuilder';
+import { Cassette, CassetteError, loadCassette, promptHash } from './Cassette';
+
+/**
+ * Serves recorded responses from a cassette instead of calling a model. The prompt
+ * is rendered for every provider id found in the cassette, so a cassette recorded
+ * with several providers replays whichever one matches. A prompt without a
+ * recording fails like a provider error, which makes prompt changes visible.
+ */
+export class ReplayProvider implements IProvider {
+  name = 'Replay';
+  private cassette: Cassette;
+  private providerIds: string[];
+
+  constructor(cassettePath: string, private promptBuilder: PromptBuilder = new PromptBuilder()) {
+    this.cassette = loadCassette(cassettePath);
+    this.providerIds = Array.from(new Set(Object.values(this.cassette.entries).map(entry => entry.provider)));
+  }
+
+  async analyzeCode(diff: string, context: ReviewContext): Promise<ReviewResult> {
+    for (const providerId of this.providerIds) {
+      const entry = this.cassette.entries[promptHash(this.promptBuilder.build(providerId, diff, context))];
+      if (entry && entry.provider === providerId) {
+        return entry.response;
+      }
+    }
+
+    throw new CassetteError(
+      `No recorded response for this prompt (prompt version ${this.promptBuilder.getVersion()}, ` +
+      `${Object.keys(this.cassette.entries).length} recordings)`
+    );
+  }
+
+  getRecordingCount(): number {
+    return Object.keys(this.cassette.entries).length;
+  }
+}
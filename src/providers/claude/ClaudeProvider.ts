@@ -1,13 +1,26 @@
 import { ConfigurableProvider } from '../BaseProvider';
 import { ReviewContext, ReviewResult } from '../IProvider';
+import { parseReviewResponse, parseStructuredReview } from '../responseParser';
+import { REVIEW_RESULT_SCHEMA } from '../ReviewSchema';
+import { BadResponseError, ContentBlockedError, toProviderError } from '../ProviderError';
+import { PromptBuilder } from '../../prompts/PromptBuilder';
 import Anthropic from '@anthropic-ai/sdk';
 
+// The review is returned as the input of a forced tool call, which Claude checks against the schema
+const REVIEW_TOOL: Anthropic.Tool = {
+  name: 'submit_review',
+  description: 'Submit the code review findings',
+  input_schema: REVIEW_RESULT_SCHEMA as unknown as Anthropic.Tool.InputSchema
+};
+
 export interface ClaudeConfig {
   apiKeys: string[];
   model?: string;
   maxTokens?: number;
   temperature?: number;
   timeout?: number;
+  baseUrl?: string;
+  promptBuilder?: PromptBuilder;
 }
 
 export class ClaudeProvider extends ConfigurableProvider {
@@ -15,20 +28,15 @@ export class ClaudeProvider extends ConfigurableProvider {
   private clients: Map<string, Anthropic> = new Map();
 
   constructor(config: ClaudeConfig) {
-    super({
-      name: 'Claude',
-      apiKeys: config.apiKeys,
-      model: config.model,
-      maxTokens: config.maxTokens,
-      temperature: config.temperature,
-      timeout: config.timeout
-    });
+    super({ ...config, name: 'Claude' });
 
-    // Initialize clients for each API key
+    // Initialize clients for each API key; retries are left to the retry policy
     this.apiKeys.forEach(key => {
       this.clients.set(key, new Anthropic({
         apiKey: key.trim(),
-        timeout: this.getTimeout()
+        timeout: this.getTimeout(),
+        baseURL: this.getBaseUrl(),
+        maxRetries: 0
       }));
     });
   }
@@ -79,62 +87,55 @@ export class ClaudeProvider extends ConfigurableProvider {
       const response = await client.messages.create({
         model: this.getModel(),
         max_tokens: this.getMaxTokens(),
+        temperature: this.getTemperature(),
+        system: prompt.system,
         messages: [
           {
             role: 'user',
-            content: prompt
+            content: prompt.user
           }
-        ]
+        ],
+        tools: [REVIEW_TOOL],
+        tool_choice: { type: 'tool', name: REVIEW_TOOL.name }
       });
 
-      const content = response.content[0];
-      if (!content || content.type !== 'text') {
-        throw new Error('No text response from Claude');
+      // Compared as a string: older SDK typings do not list 'refusal' yet
+      if ((response.stop_reason as string) === 'refusal') {
+        throw new ContentBlockedError('Claude API error: Content blocked: the model refused the request', { provider: 'Claude' });
       }
 
-      return this.parseResponse(content.text);
-    } catch {
-      // Sanitize error message to prevent security leaks
-      throw new Error('Claude API error: Request failed');
+      // Proxies that drop tools answer in text, which is parsed the old way
+      const toolUse = response.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === REVIEW_TOOL.name);
+      const text = response.content.find((block): block is Anthropic.TextBlock => block.type === 'text');
+
+      // A max_tokens stop leaves the tool input or text incomplete
+      const truncated = response.stop_reason === 'max_tokens';
+      let result: ReviewResult;
+      if (toolUse) {
+        result = parseStructuredReview(toolUse.input, { provider: 'Claude', defaultSummary: 'Claude review completed', confidence: 0.85, truncated });
+      } else if (text) {
+        result = this.parseResponse(text.text, truncated);
+      } else {
+        throw new BadResponseError('Claude API error: Invalid response: no review content', { provider: 'Claude' });
+      }
+
+      if (response.usage) {
+        result.usage = { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens };
+      }
+      this.markKeySuccess(apiKey);
+      return result;
+    } catch (error) {
+      // Classify and redact the error; status and Retry-After are kept for retries
+      const providerError = toProviderError(error, 'Claude');
+      // Auth and quota errors disable this key, rate limits put it on cooldown
+      this.markKeyFailure(apiKey, providerError);
+      throw providerError;
     } finally {
       // Move to next API key for round-robin
       this.advanceToNextApiKey();
     }
   }
 
-  private buildPrompt(diff: string, context: ReviewContext): string {
-    return `You are an expert code reviewer. Please analyze this pull request diff:
-
-Repository: ${context.repository}
-PR Number: ${context.prNumber}
-Branch: ${context.branch}
-
-\`\`\`diff
-${diff}
-\`\`\`
-
-Focus on:
-- Security vulnerabilities and potential exploits
-- Performance bottlenecks and optimizations
-- Code maintainability and readability
-- Edge cases and error handling
-- Adherence to best practices and conventions
-
-Provide your response in this JSON format:
-{
-  "summary": "Brief summary of your review",
-  "suggestions": [
-    {
-      "file": "filename.js",
-      "line": 10,
-      "severity": "low|medium|high",
-      "message": "Description of the issue",
-      "suggestion": "How to fix it (optional)"
-    }
-  ]
-}`;
-  }
-
   protected getDefaultModel(): string {
     return 'claude-3-sonnet-20240229';
   }
@@ -143,6 +144,11 @@ Provide your response in this JSON format:
     return 1000;
   }
 
+  // The Messages API only accepts temperatures up to 1
+  protected getMaxTemperature(): number {
+    return 1;
+  }
+
   // Expose getCurrentApiKey for testing
   getCurrentApiKey(): string {
     return super.getCurrentApiKey();
@@ -153,27 +159,12 @@ Provide your response in this JSON format:
     super.advanceToNextApiKey();
   }
 
-  private parseResponse(content: string): ReviewResult {
-    try {
-      // Extract JSON from response (Claude might include explanatory text)
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        summary: parsed.summary || 'Claude review completed',
-        suggestions: parsed.suggestions || [],
-        confidence: 0.85
-      };
-    } catch {
-      // Fallback if JSON parsing fails
-      return {
-        summary: content,
-        suggestions: [],
-        confidence: 0.6
-      };
-    }
+  private parseResponse(content: string, truncated: boolean): ReviewResult {
+    return parseReviewResponse(content, {
+      defaultSummary: 'Claude review completed',
+      confidence: 0.85,
+      fallbackConfidence: 0.6,
+      truncated
+    });
   }
 }
@@ -0,0 +1,154 @@
+import { spawn } from 'child_process';
+import * as core from '@actions/core';
+import { IProvider, ReviewContext, ReviewResult } from '../IProvider';
+import { ProviderConfigError } from '../BaseProvider';
+import { PromptBuilder } from '../../prompts/PromptBuilder';
+
+export type CommandInputFormat = 'text' | 'json';
+
+export const COMMAND_INPUT_FORMATS: readonly CommandInputFormat[] = ['text', 'json'];
+
+// Output beyond this is not a review result; stop reading rather than exhaust memory
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+export interface CommandProviderConfig {
+  // Executable to run; looked up on PATH unless it contains a path separator
+  command: string;
+  args?: string[];
+  timeout?: number;
+  // text: system and user prompt as plain text; json: {system, user, diff, context}
+  inputFormat?: CommandInputFormat;
+  // Working directory of the command, defaults to the workspace
+  cwd?: string;
+  promptBuilder?: PromptBuilder;
+}
+
+export class CommandProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandProviderError';
+  }
+}
+
+/**
+ * Runs a local executable per chunk: the rendered prompt goes to stdin and a
+ * ReviewResult JSON object is expected on stdout. A non-zero exit, a timeout or
+ * unparseable output fails the chunk like any other provider error.
+ */
+export class CommandProvider implements IProvider {
+  name = 'Command';
+  private config: CommandProviderConfig;
+
+  constructor(config: CommandProviderConfig) {
+    if (!config.command || config.command.trim().length === 0) {
+      throw new ProviderConfigError('Invalid Command configuration: command is required');
+    }
+    if (config.timeout !== undefined && (!Number.isInteger(config.timeout) || config.timeout <= 0)) {
+      throw new ProviderConfigError('Invalid Command configuration: timeout must be a positive number of milliseconds');
+    }
+    if (config.inputFormat !== undefined && !COMMAND_INPUT_FORMATS.includes(config.inputFormat)) {
+      throw new ProviderConfigError(`Invalid Command configuration: input format must be one of ${COMMAND_INPUT_FORMATS.join(', ')}`);
+    }
+    this.config = config;
+  }
+
+  async analyzeCode(diff: string, context: ReviewContext): Promise<ReviewResult> {
+    const builder = this.config.promptBuilder || new PromptBuilder();
+    const prompt = builder.build('command', diff, context);
+    const input = this.config.inputFormat === 'json'
+      ? JSON.stringify({ system: prompt.system, user: prompt.user, diff, context })
+      : `${prompt.system}\n\n${prompt.user}`;
+
+    const stdout = await this.run(input);
+    return parseCommandOutput(stdout);
+  }
+
+  getModelInfo(): { model: string; maxTokens: number } {
+    return { model: this.config.command, maxTokens: 0 };
+  }
+
+  private run(input: string): Promise<string> {
+    const timeout = this.config.timeout || 30000;
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.command, this.config.args || [], {
+        cwd: this.config.cwd || process.env.GITHUB_WORKSPACE || process.cwd(),
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
+
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      let outputBytes = 0;
+      let failure: CommandProviderError | null = null;
+
+      const fail = (message: string) => {
+        if (!failure) {
+          failure = new CommandProviderError(message);
+          child.kill('SIGKILL');
+        }
+      };
+
+      const timer = setTimeout(() => fail(`Command timed out after ${timeout}ms`), timeout);
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        outputBytes += chunk.length;
+        if (outputBytes > MAX_OUTPUT_BYTES) {
+          fail(`Command output exceeded ${MAX_OUTPUT_BYTES} bytes`);
+          return;
+        }
+        stdout.push(chunk);
+      });
+      child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(new CommandProviderError(`Failed to start command: ${error.message}`));
+      });
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        const errorOutput = Buffer.concat(stderr).toString('utf8').trim();
+        if (errorOutput) {
+          // Tool diagnostics may include internal details, so they only go to the debug log
+          core.debug(`Command provider stderr:\n${errorOutput}`);
+        }
+
+        if (failure) {
+          reject(failure);
+        } else if (code !== 0) {
+          reject(new CommandProviderError(`Command exited with ${code !== null ? `code ${code}` : `signal ${signal}`}`));
+        } else {
+          resolve(Buffer.concat(stdout).toString('utf8'));
+        }
+      });
+
+      // A command that ignores stdin closes the pipe early; that is not an error by itself
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(input);
+    });
+  }
+}
+
+/**
+ * Parses the command's stdout as a ReviewResult. Unlike model replies this is
+ * strict: the tool is expected to print exactly one JSON object.
+ */
+export function parseCommandOutput(stdout: string): ReviewResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stdout.trim());
+  } catch {
+    throw new CommandProviderError('Command output is not valid JSON');
+  }
+
+  const result = parsed as Partial<ReviewResult> | null;
+  if (!result || typeof result !== 'object' || typeof result.summary !== 'string' || !Array.isArray(result.suggestions)) {
+    throw new CommandProviderError('Command output must be a JSON object with "summary" and "suggestions"');
+  }
+
+  return {
+    summary: result.summary,
+    suggestions: result.suggestions,
+    confidence: typeof result.confidence === 'number' ? result.confidence : 0.7
+  };
+}
@@ -1,6 +1,10 @@
 import { ConfigurableProvider } from '../BaseProvider';
 import { ReviewContext, ReviewResult } from '../IProvider';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { parseReviewResponse, parseStructuredReview } from '../responseParser';
+import { JsonSchema, REVIEW_RESULT_SCHEMA, supportsGeminiResponseSchema } from '../ReviewSchema';
+import { BadResponseError, toProviderError } from '../ProviderError';
+import { PromptBuilder } from '../../prompts/PromptBuilder';
+import { FinishReason, GoogleGenerativeAI, Schema, SchemaType } from '@google/generative-ai';
 
 export interface GeminiConfig {
   apiKeys: string[];
@@ -8,6 +12,8 @@ export interface GeminiConfig {
   maxTokens?: number;
   temperature?: number;
   timeout?: number;
+  baseUrl?: string;
+  promptBuilder?: PromptBuilder;
 }
 
 export class GeminiProvider extends ConfigurableProvider {
@@ -15,14 +21,7 @@ export class GeminiProvider extends ConfigurableProvider {
   private clients: Map<string, GoogleGenerativeAI> = new Map();
 
   constructor(config: GeminiConfig) {
-    super({
-      name: 'Gemini',
-      apiKeys: config.apiKeys,
-      model: config.model,
-      maxTokens: config.maxTokens,
-      temperature: config.temperature,
-      timeout: config.timeout
-    });
+    super({ ...config, name: 'Gemini' });
 
     // Initialize clients for each API key
     this.apiKeys.forEach(key => {
@@ -42,7 +41,7 @@ export class GeminiProvider extends ConfigurableProvider {
       if (!client) return false;
 
       // Simple health check - get the model
-      const model = client.getGenerativeModel({ model: this.getModel() });
+      const model = this.getGenerativeModel(client);
       // Try a simple generation to verify the API key works
       await model.generateContent('Hi');
       return true;
@@ -71,24 +70,61 @@ export class GeminiProvider extends ConfigurableProvider {
     const prompt = this.buildPrompt(diff, context);
 
     try {
-      const model = client.getGenerativeModel({ model: this.getModel() });
-      const response = await model.generateContent(prompt);
+      const model = this.getGenerativeModel(client, prompt.system);
+      const response = await model.generateContent(prompt.user);
       const content = response.response.text();
 
       if (!content) {
-        throw new Error('No response from Gemini');
+        throw new BadResponseError('Gemini API error: Invalid response: no content', { provider: 'Gemini' });
       }
 
-      return this.parseResponse(content);
-    } catch {
-      // Sanitize error message to prevent security leaks
-      throw new Error('Gemini API error: Request failed');
+      const truncated = response.response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS;
+      const result = this.usesResponseSchema()
+        ? parseStructuredReview(content, { provider: 'Gemini', defaultSummary: 'Gemini review completed', confidence: 0.82, truncated })
+        : this.parseResponse(content, truncated);
+      const usage = response.response.usageMetadata;
+      if (usage) {
+        result.usage = { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount };
+      }
+      this.markKeySuccess(apiKey);
+      return result;
+    } catch (error) {
+      // Classify and redact the error; status and Retry-After are kept for retries; safety blocks become ContentBlockedError
+      const providerError = toProviderError(error, 'Gemini');
+      // Auth and quota errors disable this key, rate limits put it on cooldown
+      this.markKeyFailure(apiKey, providerError);
+      throw providerError;
     } finally {
       // Move to next API key for round-robin
       this.advanceToNextApiKey();
     }
   }
 
+  private getGenerativeModel(client: GoogleGenerativeAI, systemInstruction?: string) {
+    return client.getGenerativeModel(
+      {
+        model: this.getModel(),
+        systemInstruction,
+        generationConfig: {
+          maxOutputTokens: this.getMaxTokens(),
+          temperature: this.getTemperature(),
+          ...(this.usesResponseSchema()
+            ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(REVIEW_RESULT_SCHEMA) }
+            : {})
+        }
+      },
+      {
+        timeout: this.getTimeout(),
+        baseUrl: this.getBaseUrl()
+      }
+    );
+  }
+
+  // gemini-pro (1.0) ignores responseSchema, so it keeps prompt-only JSON
+  private usesResponseSchema(): boolean {
+    return supportsGeminiResponseSchema(this.getModel());
+  }
+
   protected getDefaultModel(): string {
     return 'gemini-pro';
   }
@@ -107,73 +143,38 @@ export class GeminiProvider extends ConfigurableProvider {
     super.advanceToNextApiKey();
   }
 
-  private buildPrompt(diff: string, context: ReviewContext): string {
-    return `You are an expert code reviewer. Analyze this pull request diff and provide detailed, line-by-line feedback.
-
-Repository: ${context.repository}
-PR Number: ${context.prNumber}
-Branch: ${context.branch}
-
-\`\`\`diff
-${diff}
-\`\`\`
-
-ANALYSIS FOCUS:
-- Security vulnerabilities (injections, authentication, data exposure)
-- Performance bottlenecks (inefficient algorithms, memory usage)
-- Code correctness (logic errors, edge cases, race conditions)
-- Code style and maintainability (readability, structure, patterns)
-- Best practices and conventions
-
-REVIEW REQUIREMENTS:
-1. Analyze EACH changed function/method individually
-2. For each issue found, provide SPECIFIC line numbers
-3. Suggest concrete improvements with code examples when helpful
-4. Prioritize security and correctness issues
-5. Consider the broader context of the changes
-
-RESPONSE FORMAT (strict JSON):
-{
-  "summary": "Detailed summary of your overall review",
-  "suggestions": [
-    {
-      "file": "filename.js",
-      "line": 15,
-      "severity": "high|medium|low",
-      "message": "Specific description of the issue with context",
-      "suggestion": "Detailed suggestion with code example if applicable"
-    }
-  ]
-}
-
-IMPORTANT:
-- Provide feedback for EVERY significant change
-- Be constructive and educational in your feedback
-- Include both problems and positive observations
-- If code looks good, acknowledge what's done well`;
+  private parseResponse(content: string, truncated: boolean): ReviewResult {
+    return parseReviewResponse(content, {
+      defaultSummary: 'Gemini review completed',
+      confidence: 0.82,
+      fallbackConfidence: 0.6,
+      truncated
+    });
   }
+}
 
-  private parseResponse(content: string): ReviewResult {
-    try {
-      // Extract JSON from response (Gemini might include explanatory text)
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
+// Gemini takes an OpenAPI-style subset: enum strings are marked with format 'enum' and additionalProperties is not allowed
+export function toGeminiSchema(schema: JsonSchema): Schema {
+  const base = { description: schema.description };
+  switch (schema.type) {
+    case 'object':
       return {
-        summary: parsed.summary || 'Gemini review completed',
-        suggestions: parsed.suggestions || [],
-        confidence: 0.82
+        ...base,
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(Object.entries(schema.properties || {}).map(([name, property]) => [name, toGeminiSchema(property)])),
+        required: schema.required
       };
-    } catch {
-      // Fallback if JSON parsing fails
-      return {
-        summary: content,
-        suggestions: [],
-        confidence: 0.6
-      };
-    }
+    case 'array':
+      return { ...base, type: SchemaType.ARRAY, items: toGeminiSchema(schema.items || { type: 'string' }) };
+    case 'string':
+      return schema.enum
+        ? { ...base, type: SchemaType.STRING, format: 'enum', enum: schema.enum }
+        : { ...base, type: SchemaType.STRING };
+    case 'integer':
+      return { ...base, type: SchemaType.INTEGER };
+    case 'number':
+      return { ...base, type: SchemaType.NUMBER };
+    case 'boolean':
+      return { ...base, type: SchemaType.BOOLEAN };
   }
 }
@@ -0,0 +1,166 @@
+import { ConfigurableProvider, ProviderConfigError } from '../BaseProvider';
+import { ReviewContext, ReviewResult } from '../IProvider';
+import { parseReviewResponse } from '../responseParser';
+import { BadResponseError, toProviderError } from '../ProviderError';
+import { PromptBuilder } from '../../prompts/PromptBuilder';
+
+export interface OpenAICompatibleConfig {
+  // Empty when the endpoint needs no key; no Authorization header is sent then
+  apiKeys: string[];
+  // Base URL including the API prefix, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  model: string;
+  headers?: Record<string, string>;
+  maxTokens?: number;
+  temperature?: number;
+  timeout?: number;
+  promptBuilder?: PromptBuilder;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null }; finish_reason?: string | null }>;
+  // Optional on many self-hosted servers
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as
+ * Ollama, vLLM, LM Studio or LiteLLM. Plain HTTP is used instead of the OpenAI SDK
+ * so that keyless endpoints and arbitrary gateway headers work.
+ */
+export class OpenAICompatibleProvider extends ConfigurableProvider {
+  name = 'OpenAI-Compatible';
+  private headers: Record<string, string>;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super({ ...config, apiKeys: config.apiKeys.length > 0 ? config.apiKeys : [''], name: 'OpenAI-Compatible' });
+    this.headers = config.headers || {};
+  }
+
+  protected validateConfig(): void {
+    if (!this.config.baseUrl) {
+      throw new ProviderConfigError('Invalid OpenAI-Compatible configuration: baseUrl is required');
+    }
+    if (!this.config.model) {
+      throw new ProviderConfigError('Invalid OpenAI-Compatible configuration: model is required');
+    }
+    super.validateConfig();
+  }
+
+  async initialize(): Promise<void> {
+    await this.healthCheck();
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await this.request(this.getCurrentApiKey(), '/models', { method: 'GET' });
+      return response.ok;
+    } catch {
+      console.warn('OpenAI-compatible health check failed');
+      return false;
+    }
+  }
+
+  getModelInfo(): { model: string; maxTokens: number } {
+    return {
+      model: this.getModel(),
+      maxTokens: this.getMaxTokens()
+    };
+  }
+
+  async analyzeCode(diff: string, context: ReviewContext): Promise<ReviewResult> {
+    const prompt = this.buildPrompt(diff, context);
+    const apiKey = this.getCurrentApiKey();
+
+    try {
+      const response = await this.request(apiKey, '/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({
+          model: this.getModel(),
+          messages: [
+            { role: 'system', content: prompt.system },
+            { role: 'user', content: prompt.user }
+          ],
+          temperature: this.getTemperature(),
+          max_tokens: this.getMaxTokens()
+        })
+      });
+
+      if (!response.ok) {
+        // The body is not included; self-hosted servers may echo request headers in it
+        throw toProviderError({ status: response.status, headers: response.headers }, 'OpenAI-compatible');
+      }
+
+      const body = await response.json() as ChatCompletionResponse;
+      const content = body.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new BadResponseError('OpenAI-compatible API error: Invalid response: no content', { provider: 'OpenAI-compatible' });
+      }
+
+      const result = parseReviewResponse(content, {
+        defaultSummary: 'Review completed',
+        confidence: 0.75,
+        fallbackConfidence: 0.5,
+        truncated: body.choices?.[0]?.finish_reason === 'length'
+      });
+      if (body.usage) {
+        result.usage = { inputTokens: body.usage.prompt_tokens || 0, outputTokens: body.usage.completion_tokens || 0 };
+      }
+      this.markKeySuccess(apiKey);
+      return result;
+    } catch (error) {
+      // Transport errors may echo headers or URLs, so their text is redacted
+      const providerError = toProviderError(error, 'OpenAI-compatible');
+      this.markKeyFailure(apiKey, providerError);
+      throw providerError;
+    } finally {
+      this.advanceToNextApiKey();
+    }
+  }
+
+  protected getDefaultModel(): string {
+    // validateConfig guarantees a model is configured
+    return '';
+  }
+
+  protected getDefaultMaxTokens(): number {
+    return 1000;
+  }
+
+  private request(apiKey: string, path: string, init: { method: string; body?: string }): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.headers
+    };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const baseUrl = (this.getBaseUrl() || '').replace(/\/+$/, '');
+    return fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers,
+      signal: AbortSignal.timeout(this.getTimeout())
+    });
+  }
+}
+
+/**
+ * Parses `Name: value` lines into a header map. Lines without a colon are
+ * rejected so that a malformed header does not silently disappear.
+ */
+export function parseHeaderLines(lines: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  lines.forEach((line, index) => {
+    const separator = line.indexOf(':');
+    const name = separator > 0 ? line.slice(0, separator).trim() : '';
+    if (!name) {
+      // The line itself is not echoed because header values are often credentials
+      throw new ProviderConfigError(`Invalid header on line ${index + 1}: expected "Name: value"`);
+    }
+    headers[name] = line.slice(separator + 1).trim();
+  });
+
+  return headers;
+}
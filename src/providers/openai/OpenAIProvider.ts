@@ -1,5 +1,9 @@
 import { ConfigurableProvider } from '../BaseProvider';
 import { ReviewContext, ReviewResult } from '../IProvider';
+import { parseReviewResponse, parseStructuredReview } from '../responseParser';
+import { REVIEW_RESULT_SCHEMA, REVIEW_RESULT_SCHEMA_NAME, supportsOpenAIJsonSchema } from '../ReviewSchema';
+import { BadResponseError, ContentBlockedError, toProviderError } from '../ProviderError';
+import { PromptBuilder } from '../../prompts/PromptBuilder';
 import OpenAI from 'openai';
 
 export interface OpenAIConfig {
@@ -8,27 +12,30 @@ export interface OpenAIConfig {
   maxTokens?: number;
   temperature?: number;
   timeout?: number;
+  baseUrl?: string;
+  promptBuilder?: PromptBuilder;
 }
 
+/** json_schema response format for the review schema, also used by Azure OpenAI */
+export const OPENAI_RESPONSE_FORMAT = {
+  type: 'json_schema' as const,
+  json_schema: { name: REVIEW_RESULT_SCHEMA_NAME, schema: { ...REVIEW_RESULT_SCHEMA }, strict: true }
+};
+
 export class OpenAIProvider extends ConfigurableProvider {
   name = 'OpenAI';
   private clients: Map<string, OpenAI> = new Map();
 
   constructor(config: OpenAIConfig) {
-    super({
-      name: 'OpenAI',
-      apiKeys: config.apiKeys,
-      model: config.model,
-      maxTokens: config.maxTokens,
-      temperature: config.temperature,
-      timeout: config.timeout
-    });
+    super({ ...config, name: 'OpenAI' });
 
-    // Initialize clients for each API key
+    // Initialize clients for each API key; retries are left to the retry policy
     this.apiKeys.forEach(key => {
       this.clients.set(key, new OpenAI({
         apiKey: key,
-        timeout: this.getTimeout()
+        timeout: this.getTimeout(),
+        baseURL: this.getBaseUrl(),
+        maxRetries: 0
       }));
     });
   }
@@ -70,6 +77,8 @@ export class OpenAIProvider extends ConfigurableProvider {
     }
 
     const prompt = this.buildPrompt(diff, context);
+    // Models with structured outputs are held to the review schema; older ones only get prompt instructions
+    const structured = supportsOpenAIJsonSchema(this.getModel());
 
     try {
       const response = await client.chat.completions.create({
@@ -77,26 +86,44 @@ export class OpenAIProvider extends ConfigurableProvider {
         messages: [
           {
             role: 'system',
-            content: 'You are an expert code reviewer. Analyze the provided code diff and provide constructive feedback.'
+            content: prompt.system
           },
           {
             role: 'user',
-            content: prompt
+            content: prompt.user
           }
         ],
         temperature: this.getTemperature(),
-        max_tokens: this.getMaxTokens()
+        max_tokens: this.getMaxTokens(),
+        ...(structured ? { response_format: OPENAI_RESPONSE_FORMAT } : {})
       });
 
-      const content = response.choices[0]?.message?.content;
+      const choice = response.choices[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new ContentBlockedError('OpenAI API error: Content blocked by the content filter', { provider: 'OpenAI' });
+      }
+
+      const content = choice?.message?.content;
       if (!content) {
-        throw new Error('No response from OpenAI');
+        throw new BadResponseError('OpenAI API error: Invalid response: no content', { provider: 'OpenAI' });
       }
 
-      return this.parseResponse(content);
-    } catch {
-      // Sanitize error message to prevent security leaks
-      throw new Error('OpenAI API error: Request failed');
+      // Stopped at max_tokens; the complete suggestions are recovered from the partial JSON
+      const truncated = choice.finish_reason === 'length';
+      const result = structured
+        ? parseStructuredReview(content, { provider: 'OpenAI', defaultSummary: 'Review completed', confidence: 0.8, truncated })
+        : this.parseResponse(content, truncated);
+      if (response.usage) {
+        result.usage = { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens };
+      }
+      this.markKeySuccess(apiKey);
+      return result;
+    } catch (error) {
+      // Classify and redact the error; status and Retry-After are kept for retries
+      const providerError = toProviderError(error, 'OpenAI');
+      // Auth and quota errors disable this key, rate limits put it on cooldown
+      this.markKeyFailure(apiKey, providerError);
+      throw providerError;
     } finally {
       // Move to next API key for round-robin
       this.advanceToNextApiKey();
@@ -121,56 +148,12 @@ export class OpenAIProvider extends ConfigurableProvider {
     super.advanceToNextApiKey();
   }
 
-  private buildPrompt(diff: string, context: ReviewContext): string {
-    return `
-Please review this pull request diff:
-
-Repository: ${context.repository}
-PR Number: ${context.prNumber}
-Branch: ${context.branch}
-
-\`\`\`diff
-${diff}
-\`\`\`
-
-Focus on:
-- Security vulnerabilities
-- Performance issues
-- Code style and readability
-- Potential bugs
-- Best practices
-
-Provide your response in this JSON format:
-{
-  "summary": "Brief summary of the review",
-  "suggestions": [
-    {
-      "file": "filename.js",
-      "line": 10,
-      "severity": "low|medium|high",
-      "message": "Description of the issue",
-      "suggestion": "How to fix it (optional)"
-    }
-  ]
-}
-`;
-  }
-
-  private parseResponse(content: string): ReviewResult {
-    try {
-      const parsed = JSON.parse(content);
-      return {
-        summary: parsed.summary || 'Review completed',
-        suggestions: parsed.suggestions || [],
-        confidence: 0.8
-      };
-    } catch {
-      // Fallback if JSON parsing fails
-      return {
-        summary: content,
-        suggestions: [],
-        confidence: 0.5
-      };
-    }
+  private parseResponse(content: string, truncated: boolean): ReviewResult {
+    return parseReviewResponse(content, {
+      defaultSummary: 'Review completed',
+      confidence: 0.8,
+      fallbackConfidence: 0.5,
+      truncated
+    });
   }
 }
@@ -0,0 +1,160 @@
+import { ReviewResult } from './IProvider';
+import { BadResponseError } from './ProviderError';
+
+export interface ParseOptions {
+  // Summary used when the model returns JSON without one
+  defaultSummary: string;
+  confidence: number;
+  // Confidence reported when the response could not be parsed at all
+  fallbackConfidence: number;
+  // The API reported that the answer stopped at the response length limit
+  truncated?: boolean;
+}
+
+/**
+ * Parses the JSON review answer shared by every provider. Models sometimes wrap the
+ * object in a code fence or explanatory text, so the outermost `{...}` is extracted first.
+ * A cut-off answer keeps its complete suggestions; other unparseable responses become
+ * a summary-only result instead of an error.
+ */
+export function parseReviewResponse(content: string, options: ParseOptions): ReviewResult {
+  const truncated = options.truncated ? { truncated: true } : {};
+  try {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON found in response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    return {
+      summary: parsed.summary || options.defaultSummary,
+      suggestions: parsed.suggestions || [],
+      confidence: options.confidence,
+      ...truncated
+    };
+  } catch (error) {
+    // Only a cut-off answer is salvaged; a complete but malformed one is left to the repair request
+    const partial = options.truncated ? recoverPartialReview(content) : undefined;
+    if (partial) {
+      return {
+        summary: partial.summary || options.defaultSummary,
+        suggestions: partial.suggestions,
+        confidence: options.confidence,
+        truncated: true
+      };
+    }
+
+    return {
+      summary: content,
+      suggestions: [],
+      confidence: options.fallbackConfidence,
+      parseError: error instanceof Error ? error.message : 'Unknown error',
+      ...truncated
+    };
+  }
+}
+
+export interface StructuredParseOptions {
+  // Provider named in the BadResponseError
+  provider: string;
+  defaultSummary: string;
+  confidence: number;
+  truncated?: boolean;
+}
+
+/**
+ * Parses an answer produced under the review schema: the JSON text of an OpenAI or
+ * Gemini structured response, or the already decoded input of a Claude tool call.
+ * The API enforced the schema, so anything unreadable is an error rather than a
+ * summary-only result, unless the answer was cut off at the length limit.
+ */
+export function parseStructuredReview(value: unknown, options: StructuredParseOptions): ReviewResult {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      if (options.truncated) {
+        const partial = recoverPartialReview(value);
+        return {
+          summary: partial?.summary || options.defaultSummary,
+          suggestions: (partial?.suggestions || []) as ReviewResult['suggestions'],
+          confidence: options.confidence,
+          truncated: true
+        };
+      }
+      throw new BadResponseError(`${options.provider} API error: Invalid response: structured output is not valid JSON`, {
+        provider: options.provider
+      });
+    }
+  }
+
+  const review = parsed as { summary?: unknown; suggestions?: unknown } | null;
+  if (!review || typeof review !== 'object' || (review.suggestions !== undefined && !Array.isArray(review.suggestions))) {
+    throw new BadResponseError(`${options.provider} API error: Invalid response: structured output does not match the review schema`, {
+      provider: options.provider
+    });
+  }
+
+  return {
+    summary: typeof review.summary === 'string' && review.summary ? review.summary : options.defaultSummary,
+    suggestions: (review.suggestions as ReviewResult['suggestions']) || [],
+    confidence: options.confidence,
+    ...(options.truncated ? { truncated: true } : {})
+  };
+}
+
+/**
+ * Salvages a review cut off mid-JSON: every suggestion object that was closed
+ * before the cut, plus the summary if it is complete. Returns undefined when the
+ * text has no "suggestions" array to recover from.
+ */
+export function recoverPartialReview(text: string): { summary?: string; suggestions: ReviewResult['suggestions'] } | undefined {
+  const key = text.search(/"suggestions"\s*:\s*\[/);
+  if (key < 0) {
+    return undefined;
+  }
+
+  const suggestions: ReviewResult['suggestions'] = [];
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = text.indexOf('[', key) + 1; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) objectStart = i;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        try {
+          suggestions.push(JSON.parse(text.slice(objectStart, i + 1)));
+        } catch {
+          // A malformed object is skipped; later ones may still be complete
+        }
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  const summaryMatch = text.match(/"summary"\s*:\s*("(?:[^"\\]|\\.)*")/);
+  let summary: string | undefined;
+  try {
+    summary = summaryMatch ? JSON.parse(summaryMatch[1]) : undefined;
+  } catch {
+    summary = undefined;
+  }
+  return { summary, suggestions };
+}